@@ -7,6 +7,9 @@ module.exports = {
     '!src/**/*.d.ts',
     '!src/index.ts',
     '!src/post.ts',
+    '!src/restore-only.ts',
+    '!src/save-only.ts',
+    '!src/producer-heartbeat.ts',
   ],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
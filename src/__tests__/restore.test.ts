@@ -0,0 +1,280 @@
+/**
+ * Tests for the restore step
+ */
+
+import * as core from '@actions/core';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {restoreCache} from '../restore';
+import {saveCache} from '../save';
+import {
+  EntryWriteStream,
+  PRODUCER_MARKER_TTL,
+  copyEntry,
+  createRedisClient,
+  deleteEntry,
+  getCacheKey,
+  getEntryKeys,
+  readManifest,
+  verifyEntry,
+} from '../redis';
+import {FakeRedis} from '../redis/__tests__/fake-redis';
+
+jest.mock('@actions/core');
+jest.mock('../redis/client', () => ({
+  ...jest.requireActual('../redis/client'),
+  createRedisClient: jest.fn(),
+}));
+
+describe('restoreCache()', () => {
+  const env = process.env;
+  let fake: FakeRedis;
+  let testDir: string;
+  let inputs: Record<string, string>;
+  let state: Record<string, string>;
+  let outputs: Record<string, string>;
+
+  const fullKey = (key: string): string =>
+    getCacheKey(key, 'owner/repo', 'refs/heads/main');
+
+  // Save the current deps directory under a key, then remove it
+  async function saveDeps(key: string): Promise<void> {
+    await saveCache(name => (name === 'key' ? key : (inputs[name] ?? '')), {
+      afterRestore: false,
+    });
+    fs.rmSync(path.join(testDir, 'deps'), {recursive: true});
+  }
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'restore-test-'));
+    fs.mkdirSync(path.join(testDir, 'deps'));
+    fs.writeFileSync(path.join(testDir, 'deps', 'a.txt'), 'alpha');
+    jest.spyOn(process, 'cwd').mockReturnValue(testDir);
+
+    process.env = {
+      ...env,
+      GITHUB_REPOSITORY: 'owner/repo',
+      GITHUB_REF: 'refs/heads/main',
+      GITHUB_EVENT_NAME: 'push',
+      GITHUB_EVENT_PATH: '',
+      RUNNER_TEMP: testDir,
+    };
+    inputs = {
+      key: 'linux-npm-abc',
+      path: path.join(testDir, 'deps'),
+      'redis-host': 'localhost',
+      'redis-port': '6379',
+      ttl: '3600',
+      compression: '6',
+      'compression-backend': 'native',
+      'max-cache-size': '500',
+      'timeout-seconds': '30',
+      'verify-integrity': 'true',
+    };
+    state = {};
+    outputs = {};
+
+    fake = new FakeRedis();
+    jest.mocked(createRedisClient).mockResolvedValue(fake.client);
+    jest.mocked(core.getInput).mockImplementation(name => inputs[name] ?? '');
+    jest.mocked(core.getState).mockImplementation(name => state[name] ?? '');
+    jest.mocked(core.saveState).mockImplementation((name, value) => {
+      state[name] = String(value);
+    });
+    jest.mocked(core.setOutput).mockImplementation((name, value) => {
+      outputs[name] = String(value);
+    });
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+    fs.rmSync(testDir, {recursive: true, force: true});
+  });
+
+  test('should restore an exact hit', async () => {
+    await saveDeps('linux-npm-abc');
+
+    await restoreCache({saveState: true});
+
+    expect(fs.readFileSync(path.join(testDir, 'deps', 'a.txt'), 'utf8')).toBe(
+      'alpha'
+    );
+    expect(outputs['cache-hit']).toBe('true');
+    expect(outputs['cache-matched-key']).toBe('linux-npm-abc');
+    // Nothing is left to save
+    expect(state.key).toBeUndefined();
+    expect(core.setFailed).not.toHaveBeenCalled();
+  });
+
+  test('should mark a missed key as being built by this job', async () => {
+    const spawn = jest
+      .spyOn(jest.requireActual<typeof childProcess>('child_process'), 'spawn')
+      .mockReturnValue({
+        on: jest.fn(),
+        unref: jest.fn(),
+      } as unknown as childProcess.ChildProcess);
+    inputs['wait-for-producer-seconds'] = '600';
+
+    await restoreCache({saveState: true});
+
+    const building = getEntryKeys(fullKey('linux-npm-abc')).building;
+    expect(fake.get(building)).toBe(state['producer-token']);
+    expect(fake.ttls.get(building)).toBe(PRODUCER_MARKER_TTL);
+    // Kept alive in the background until the save step releases it
+    expect(spawn).toHaveBeenCalledWith(
+      process.execPath,
+      [
+        expect.stringContaining('producer-heartbeat.js'),
+        fullKey('linux-npm-abc'),
+        state['producer-token'],
+      ],
+      expect.objectContaining({detached: true})
+    );
+  });
+
+  test('should verify the archive while extracting it', async () => {
+    await saveDeps('linux-npm-abc');
+    const createWriteStream = jest.spyOn(
+      jest.requireActual<typeof fs>('fs'),
+      'createWriteStream'
+    );
+
+    await restoreCache({saveState: true});
+
+    expect(outputs['cache-hit']).toBe('true');
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringContaining('🔒 Integrity verified')
+    );
+    // The archive is never staged in a temp file
+    const written = createWriteStream.mock.calls.map(([file]) => String(file));
+    expect(written.filter(file => file.endsWith('.archive'))).toEqual([]);
+  });
+
+  test('should restore the newest restore-key match', async () => {
+    await saveDeps('linux-npm-old');
+    fs.mkdirSync(path.join(testDir, 'deps'));
+    fs.writeFileSync(path.join(testDir, 'deps', 'a.txt'), 'newer');
+    await saveDeps('linux-npm-new');
+    inputs['restore-keys'] = 'linux-npm-';
+
+    await restoreCache({saveState: true});
+
+    expect(fs.readFileSync(path.join(testDir, 'deps', 'a.txt'), 'utf8')).toBe(
+      'newer'
+    );
+    expect(outputs['cache-hit']).toBe('false');
+    expect(outputs['cache-matched-key']).toBe('linux-npm-new');
+    expect(state.key).toBe('linux-npm-abc');
+  });
+
+  test('should fall back to caches saved before keys were scoped by ref', async () => {
+    // Move a saved entry to its unscoped key, which the index doesn't hold
+    await saveDeps('linux-npm-old');
+    const unscopedKey = getCacheKey('linux-npm-old', 'owner/repo', '');
+    const writer = new EntryWriteStream(fake.client, unscopedKey, 3600);
+    await copyEntry(fake.client, fullKey('linux-npm-old'), writer);
+    await deleteEntry(fake.client, fullKey('linux-npm-old'));
+    fake.zrem('index:owner/repo', fullKey('linux-npm-old'));
+    fs.mkdirSync(path.join(testDir, 'deps'));
+    await saveDeps('linux-yarn-abc');
+    inputs['restore-keys'] = 'linux-npm-';
+
+    await restoreCache({saveState: true});
+
+    expect(fs.readFileSync(path.join(testDir, 'deps', 'a.txt'), 'utf8')).toBe(
+      'alpha'
+    );
+    expect(outputs['cache-matched-key']).toBe('linux-npm-old');
+  });
+
+  test('should record the save settings on a miss', async () => {
+    await restoreCache({saveState: true});
+
+    expect(outputs['cache-hit']).toBe('false');
+    expect(outputs['cache-matched-key']).toBe('');
+    expect(state.key).toBe('linux-npm-abc');
+    expect(state['redis-host']).toBe('localhost');
+  });
+
+  test('should not record state for the standalone action', async () => {
+    await restoreCache({saveState: false});
+
+    expect(core.saveState).not.toHaveBeenCalled();
+  });
+
+  test('should let the save step overwrite a corrupt exact hit', async () => {
+    await saveDeps('linux-npm-abc');
+    const manifest = await readManifest(fake.client, fullKey('linux-npm-abc'));
+    const chunk = fake.keys('chunk:')[0];
+    const corrupt = Buffer.from(fake.getBuffer(chunk) as Buffer);
+    corrupt[corrupt.length - 1] ^= 0xff;
+    fake.set(chunk, corrupt);
+
+    await restoreCache({saveState: true});
+
+    expect(outputs['cache-hit']).toBe('false');
+    expect(state['broken-entry']).toBe(manifest?.sha256);
+  });
+
+  test('should copy an unchanged fallback to the primary key', async () => {
+    await saveDeps('linux-npm-old');
+    inputs['restore-keys'] = 'linux-npm-';
+    inputs['skip-unchanged'] = 'true';
+
+    await restoreCache({saveState: true});
+    expect(state['restored-entry']).toBe(fullKey('linux-npm-old'));
+    await saveCache(name => core.getState(name), {afterRestore: true});
+    expect(core.info).toHaveBeenCalledWith(
+      '♻️  Copying the archive of linux-npm-old'
+    );
+
+    const source = await readManifest(fake.client, fullKey('linux-npm-old'));
+    const copy = await readManifest(fake.client, fullKey('linux-npm-abc'));
+    expect(await verifyEntry(fake.client, fullKey('linux-npm-abc'))).toBe(true);
+    expect(copy?.sha256).toBe(source?.sha256);
+    expect(copy?.saveId).not.toBe(source?.saveId);
+  });
+
+  describe('lookup-only', () => {
+    beforeEach(() => {
+      inputs['lookup-only'] = 'true';
+    });
+
+    test('should report an entry without downloading it', async () => {
+      await saveDeps('linux-npm-abc');
+      const download = jest.spyOn(fake, 'getBuffer');
+
+      await restoreCache({saveState: true});
+
+      expect(outputs['cache-hit']).toBe('true');
+      expect(outputs['cache-matched-key']).toBe('linux-npm-abc');
+      expect(download).not.toHaveBeenCalled();
+      expect(fs.existsSync(path.join(testDir, 'deps'))).toBe(false);
+    });
+
+    test('should not wait for a job building the key', async () => {
+      const building = getEntryKeys(fullKey('linux-npm-abc')).building;
+      fake.set(building, 'other', 'EX', 600);
+      inputs['wait-for-producer-seconds'] = '600';
+
+      const start = Date.now();
+      await restoreCache({saveState: true});
+
+      expect(Date.now() - start).toBeLessThan(5000);
+      expect(outputs['cache-hit']).toBe('false');
+    });
+
+    test('should not mark the key as being built', async () => {
+      inputs['wait-for-producer-seconds'] = '600';
+
+      await restoreCache({saveState: true});
+
+      expect(fake.keys('building:')).toEqual([]);
+      expect(state['producer-token']).toBeUndefined();
+    });
+  });
+});
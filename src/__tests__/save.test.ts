@@ -0,0 +1,223 @@
+/**
+ * Tests for the save step
+ */
+
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {saveCache} from '../save';
+import {
+  createRedisClient,
+  getCacheKey,
+  getEntryKeys,
+  readManifest,
+  readMetadata,
+  verifyEntry,
+} from '../redis';
+import {FakeRedis} from '../redis/__tests__/fake-redis';
+
+jest.mock('@actions/core');
+jest.mock('../redis/client', () => ({
+  ...jest.requireActual('../redis/client'),
+  createRedisClient: jest.fn(),
+}));
+
+describe('saveCache()', () => {
+  const env = process.env;
+  let fake: FakeRedis;
+  let testDir: string;
+  let settings: Record<string, string>;
+  const read = (name: string): string => settings[name] ?? '';
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'save-test-'));
+    fs.mkdirSync(path.join(testDir, 'deps'));
+    fs.writeFileSync(path.join(testDir, 'deps', 'a.txt'), 'alpha');
+
+    process.env = {
+      ...env,
+      GITHUB_REPOSITORY: 'owner/repo',
+      GITHUB_REF: 'refs/heads/main',
+      GITHUB_EVENT_NAME: 'push',
+      GITHUB_EVENT_PATH: '',
+      RUNNER_TEMP: testDir,
+    };
+    settings = {
+      key: 'linux-npm-abc',
+      path: path.join(testDir, 'deps'),
+      'redis-host': 'localhost',
+      'redis-port': '6379',
+      ttl: '3600',
+      compression: '6',
+      'compression-backend': 'native',
+      'max-cache-size': '500',
+      'timeout-seconds': '30',
+    };
+
+    fake = new FakeRedis();
+    jest.mocked(createRedisClient).mockResolvedValue(fake.client);
+  });
+
+  afterEach(() => {
+    process.env = env;
+    jest.clearAllMocks();
+    fs.rmSync(testDir, {recursive: true, force: true});
+  });
+
+  const fullKey = (): string =>
+    getCacheKey('linux-npm-abc', 'owner/repo', 'refs/heads/main');
+
+  test('should save the paths under the key', async () => {
+    await saveCache(read, {afterRestore: false});
+
+    expect(await verifyEntry(fake.client, fullKey())).toBe(true);
+    expect((await readMetadata(fake.client, fullKey()))?.key).toBe(
+      'linux-npm-abc'
+    );
+    expect(fake.zscore('index:owner/repo', fullKey())).not.toBeNull();
+    expect(core.warning).not.toHaveBeenCalled();
+  });
+
+  test('should count each cached file once', async () => {
+    fs.mkdirSync(path.join(testDir, 'deps', 'sub'));
+    fs.writeFileSync(path.join(testDir, 'deps', 'sub', 'b.txt'), 'b');
+
+    await saveCache(read, {afterRestore: false});
+
+    const metadata = await readMetadata(fake.client, fullKey());
+    expect(metadata?.uncompressedSize).toBe(6);
+    expect(metadata?.fileCount).toBe(2);
+  });
+
+  test('should write reproducible archives with chunk dedup', async () => {
+    settings['chunk-dedup'] = 'true';
+    const file = path.join(testDir, 'deps', 'a.txt');
+    fs.utimesSync(file, new Date(1000000000000), new Date(1000000000000));
+    await saveCache(read, {afterRestore: false});
+
+    fs.utimesSync(file, new Date(2000000000000), new Date(2000000000000));
+    settings.key = 'linux-npm-def';
+    await saveCache(read, {afterRestore: false});
+
+    const other = getCacheKey('linux-npm-def', 'owner/repo', 'refs/heads/main');
+    expect((await readManifest(fake.client, other))?.sha256).toBe(
+      (await readManifest(fake.client, fullKey()))?.sha256
+    );
+  });
+
+  test('should ignore chunk dedup with a repository quota', async () => {
+    settings['chunk-dedup'] = 'true';
+    settings['repository-quota-mb'] = '10';
+
+    await saveCache(read, {afterRestore: false});
+
+    expect(await verifyEntry(fake.client, fullKey())).toBe(true);
+    expect(fake.keys('cas:')).toHaveLength(0);
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('chunk-dedup is ignored with repository-quota-mb')
+    );
+  });
+
+  test('should make room in the quota for the entry before uploading', async () => {
+    settings['repository-quota-mb'] = '1';
+    fs.writeFileSync(
+      path.join(testDir, 'deps', 'a.txt'),
+      crypto.randomBytes(600 * 1024)
+    );
+    await saveCache(read, {afterRestore: false});
+    jest.clearAllMocks();
+
+    settings.key = 'linux-npm-def';
+    await saveCache(read, {afterRestore: false});
+
+    const messages = jest.mocked(core.info).mock.calls.map(([m]) => m);
+    const evicted = messages.findIndex(m => m.startsWith('🧹 Evicted 1'));
+    const uploading = messages.findIndex(m => m.includes('uploading archive'));
+    expect(evicted).toBeGreaterThanOrEqual(0);
+    expect(evicted).toBeLessThan(uploading);
+    expect(await verifyEntry(fake.client, fullKey())).toBe(false);
+  });
+
+  test('should skip the save when a complete entry exists', async () => {
+    await saveCache(read, {afterRestore: false});
+    const saveId = (await readManifest(fake.client, fullKey()))?.saveId;
+
+    await saveCache(read, {afterRestore: false});
+
+    expect((await readManifest(fake.client, fullKey()))?.saveId).toBe(saveId);
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringContaining('already exists - skipping save')
+    );
+  });
+
+  test('should overwrite an entry with a missing chunk', async () => {
+    await saveCache(read, {afterRestore: false});
+    const manifest = await readManifest(fake.client, fullKey());
+    fake.del(getEntryKeys(fullKey()).chunk(manifest?.saveId as string, 0));
+
+    await saveCache(read, {afterRestore: false});
+
+    expect(await verifyEntry(fake.client, fullKey())).toBe(true);
+    expect((await readManifest(fake.client, fullKey()))?.saveId).not.toBe(
+      manifest?.saveId
+    );
+  });
+
+  test('should overwrite the corrupt entry the restore step came across', async () => {
+    await saveCache(read, {afterRestore: false});
+    const manifest = await readManifest(fake.client, fullKey());
+
+    settings['broken-entry'] = manifest?.sha256 as string;
+    await saveCache(read, {afterRestore: true});
+
+    expect((await readManifest(fake.client, fullKey()))?.saveId).not.toBe(
+      manifest?.saveId
+    );
+  });
+
+  test('should explain a missing key after an exact hit', async () => {
+    delete settings.key;
+
+    await saveCache(read, {afterRestore: true});
+
+    expect(core.info).toHaveBeenCalledWith(
+      'ℹ️  Cache was restored by exact key - skipping save'
+    );
+    expect(core.warning).not.toHaveBeenCalled();
+  });
+
+  test('should warn about a missing key in the standalone action', async () => {
+    delete settings.key;
+
+    await saveCache(read, {afterRestore: false});
+
+    expect(core.warning).toHaveBeenCalledWith(
+      '⚠️  No key or path given - skipping cache save'
+    );
+    expect(createRedisClient).not.toHaveBeenCalled();
+  });
+
+  test('should release the producer marker when nothing is saved', async () => {
+    const building = getEntryKeys(fullKey()).building;
+    fake.set(building, 'token', 'EX', 600);
+    settings['producer-token'] = 'token';
+    settings.path = path.join(testDir, 'missing');
+
+    await saveCache(read, {afterRestore: true});
+
+    expect(fake.has(building)).toBe(false);
+    expect(await verifyEntry(fake.client, fullKey())).toBe(false);
+  });
+
+  test('should keep a marker claimed by another job', async () => {
+    const building = getEntryKeys(fullKey()).building;
+    fake.set(building, 'other', 'EX', 600);
+    settings['producer-token'] = 'token';
+
+    await saveCache(read, {afterRestore: true});
+
+    expect(fake.get(building)).toBe('other');
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Tests for path utilities
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {getPathsFingerprint, measurePaths, removeNestedPaths} from '../utils';
+
+describe('utils', () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'utils-test-'));
+    fs.mkdirSync(path.join(testDir, 'deps'));
+    fs.writeFileSync(path.join(testDir, 'deps', 'a.txt'), 'alpha');
+    fs.writeFileSync(path.join(testDir, 'deps', 'b.txt'), 'beta');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, {recursive: true, force: true});
+  });
+
+  function touch(file: string, seconds: number): void {
+    const time = new Date(Date.UTC(2024, 0, 1, 0, 0, seconds));
+    fs.utimesSync(file, time, time);
+  }
+
+  describe('removeNestedPaths()', () => {
+    test('should drop paths under another listed path', () => {
+      const deps = path.join(testDir, 'deps');
+      const paths = [
+        deps,
+        path.join(deps, 'a.txt'),
+        path.join(testDir, 'deps-extra'),
+        path.join(testDir, 'other', 'c.txt'),
+      ];
+
+      expect(removeNestedPaths(paths)).toEqual([
+        deps,
+        path.join(testDir, 'deps-extra'),
+        path.join(testDir, 'other', 'c.txt'),
+      ]);
+    });
+  });
+
+  describe('measurePaths()', () => {
+    test('should count the regular files under the paths', async () => {
+      fs.mkdirSync(path.join(testDir, 'deps', 'sub'));
+      fs.writeFileSync(path.join(testDir, 'deps', 'sub', 'c.txt'), 'gamma');
+      fs.symlinkSync('a.txt', path.join(testDir, 'deps', 'link'));
+
+      expect(await measurePaths([path.join(testDir, 'deps')])).toEqual({
+        size: 14,
+        fileCount: 3,
+      });
+    });
+  });
+
+  describe('getPathsFingerprint()', () => {
+    test('should be stable for unchanged files', async () => {
+      expect(await getPathsFingerprint([testDir])).toBe(
+        await getPathsFingerprint([testDir])
+      );
+    });
+
+    test('should not depend on the order of the paths', async () => {
+      const a = path.join(testDir, 'deps', 'a.txt');
+      const b = path.join(testDir, 'deps', 'b.txt');
+
+      expect(await getPathsFingerprint([a, b])).toBe(
+        await getPathsFingerprint([b, a])
+      );
+    });
+
+    test('should change when a file is added', async () => {
+      const before = await getPathsFingerprint([testDir]);
+
+      fs.writeFileSync(path.join(testDir, 'deps', 'c.txt'), 'gamma');
+
+      expect(await getPathsFingerprint([testDir])).not.toBe(before);
+    });
+
+    test('should change when a file is removed', async () => {
+      const before = await getPathsFingerprint([testDir]);
+
+      fs.unlinkSync(path.join(testDir, 'deps', 'b.txt'));
+
+      expect(await getPathsFingerprint([testDir])).not.toBe(before);
+    });
+
+    test('should change when a file is modified', async () => {
+      const file = path.join(testDir, 'deps', 'a.txt');
+      touch(file, 1);
+      const before = await getPathsFingerprint([testDir]);
+
+      fs.writeFileSync(file, 'alpha and more');
+      touch(file, 1);
+
+      expect(await getPathsFingerprint([testDir])).not.toBe(before);
+    });
+
+    test('should change when only the modification time changes', async () => {
+      const file = path.join(testDir, 'deps', 'a.txt');
+      touch(file, 1);
+      const before = await getPathsFingerprint([testDir]);
+
+      touch(file, 2);
+
+      expect(await getPathsFingerprint([testDir])).not.toBe(before);
+    });
+
+    test('should change when a symbolic link is retargeted', async () => {
+      const link = path.join(testDir, 'deps', 'link');
+      fs.symlinkSync('a.txt', link);
+      const before = await getPathsFingerprint([testDir]);
+
+      fs.unlinkSync(link);
+      fs.symlinkSync('b.txt', link);
+
+      expect(await getPathsFingerprint([testDir])).not.toBe(before);
+    });
+
+    test('should not follow symbolic links', async () => {
+      const deps = path.join(testDir, 'deps');
+      const outside = path.join(testDir, 'outside');
+      fs.mkdirSync(outside);
+      fs.writeFileSync(path.join(outside, 'c.txt'), 'gamma');
+      fs.symlinkSync('../outside', path.join(deps, 'link'));
+      const before = await getPathsFingerprint([deps]);
+
+      fs.writeFileSync(path.join(outside, 'c.txt'), 'gamma and more');
+      fs.writeFileSync(path.join(outside, 'd.txt'), 'delta');
+
+      expect(await getPathsFingerprint([deps])).toBe(before);
+    });
+
+    test('should skip paths that do not exist', async () => {
+      expect(
+        await getPathsFingerprint([testDir, path.join(testDir, 'missing')])
+      ).toBe(await getPathsFingerprint([testDir]));
+    });
+  });
+
+  describe('getPathsFingerprint() with contents', () => {
+    test('should ignore modification times', async () => {
+      const file = path.join(testDir, 'deps', 'a.txt');
+      const before = await getPathsFingerprint([testDir], true);
+
+      touch(file, 1);
+      fs.writeFileSync(file, 'alpha');
+      touch(file, 2);
+
+      expect(await getPathsFingerprint([testDir], true)).toBe(before);
+    });
+
+    test('should change when file contents change', async () => {
+      const file = path.join(testDir, 'deps', 'a.txt');
+      const before = await getPathsFingerprint([testDir], true);
+
+      fs.writeFileSync(file, 'alphb');
+
+      expect(await getPathsFingerprint([testDir], true)).not.toBe(before);
+    });
+
+    test('should change when a file is renamed', async () => {
+      const before = await getPathsFingerprint([testDir], true);
+
+      fs.renameSync(
+        path.join(testDir, 'deps', 'b.txt'),
+        path.join(testDir, 'deps', 'c.txt')
+      );
+
+      expect(await getPathsFingerprint([testDir], true)).not.toBe(before);
+    });
+
+    test('should differ from the metadata fingerprint', async () => {
+      expect(await getPathsFingerprint([testDir], true)).not.toBe(
+        await getPathsFingerprint([testDir])
+      );
+    });
+  });
+});
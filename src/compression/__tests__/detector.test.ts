@@ -0,0 +1,57 @@
+/**
+ * Tests for archive format sniffing
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {detectArchiveFormat, ARCHIVE_HEADER_SIZE} from '../detector';
+import {CompressionFormat, CompressionHandler} from '../types';
+import {TarGzipNativeHandler} from '../formats/tar-gzip-native';
+import {ZipNativeHandler} from '../formats/zip-native';
+import {GzipNativeHandler} from '../formats/gzip-native';
+import {Lz4NativeHandler} from '../formats/lz4-native';
+
+describe('detectArchiveFormat()', () => {
+  let testDir: string;
+  let sourceFile: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'detector-test-'));
+    sourceFile = path.join(testDir, 'data.txt');
+    fs.writeFileSync(sourceFile, 'cached content\n'.repeat(100));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, {recursive: true, force: true});
+  });
+
+  const readHeader = (file: string): Buffer =>
+    fs.readFileSync(file).subarray(0, ARCHIVE_HEADER_SIZE);
+
+  const cases: Array<[string, CompressionHandler, CompressionFormat]> = [
+    ['tar+gzip', new TarGzipNativeHandler(), CompressionFormat.TAR_GZIP],
+    ['gzip', new GzipNativeHandler(), CompressionFormat.TAR_GZIP],
+    ['zip', new ZipNativeHandler(), CompressionFormat.ZIP],
+    ['lz4', new Lz4NativeHandler(), CompressionFormat.LZ4],
+  ];
+
+  test.each(cases)(
+    'should detect %s archives written by the handler',
+    async (_name, handler, expected) => {
+      const archive = path.join(testDir, 'archive');
+      await handler.compress([sourceFile], archive, 6);
+
+      expect(detectArchiveFormat(readHeader(archive))).toBe(expected);
+    }
+  );
+
+  test('should return null for unknown data', () => {
+    expect(detectArchiveFormat(Buffer.from('plain text'))).toBeNull();
+  });
+
+  test('should return null for truncated headers', () => {
+    expect(detectArchiveFormat(Buffer.from([0x50, 0x4b]))).toBeNull();
+    expect(detectArchiveFormat(Buffer.alloc(0))).toBeNull();
+  });
+});
@@ -4,12 +4,14 @@
 
 import {
   getBestCompressionHandler,
+  getExtractionHandler,
   CompressionBackend,
 } from '../factory';
 import {CompressionFormat} from '../types';
 import {TarGzipNativeHandler} from '../formats/tar-gzip-native';
 import {ZipNativeHandler} from '../formats/zip-native';
 import {GzipNativeHandler} from '../formats/gzip-native';
+import {Lz4NativeHandler} from '../formats/lz4-native';
 
 describe('Compression Factory', () => {
   describe('getBestCompressionHandler()', () => {
@@ -227,4 +229,38 @@ describe('Compression Factory', () => {
       });
     });
   });
+
+  describe('getExtractionHandler()', () => {
+    test('should use the handler matching the detected format', async () => {
+      const handler = await getExtractionHandler(CompressionFormat.ZIP, 'auto');
+      expect(handler).toBeInstanceOf(ZipNativeHandler);
+    });
+
+    test('should read lz4 archives regardless of priority', async () => {
+      const handler = await getExtractionHandler(CompressionFormat.LZ4, 'auto');
+      expect(handler).toBeInstanceOf(Lz4NativeHandler);
+    });
+
+    test('should extract gzip archives with the tar+gzip handler', async () => {
+      const handler = await getExtractionHandler(
+        CompressionFormat.GZIP,
+        'native'
+      );
+      expect(handler).toBeInstanceOf(TarGzipNativeHandler);
+    });
+
+    test('should fall back to handlers outside the backend preference', async () => {
+      // lz4 only has a native handler
+      const handler = await getExtractionHandler(
+        CompressionFormat.LZ4,
+        'shell'
+      );
+      expect(handler).toBeInstanceOf(Lz4NativeHandler);
+    });
+
+    test('should use the best handler when the format is unknown', async () => {
+      const handler = await getExtractionHandler(null, 'native');
+      expect(handler).toBeInstanceOf(TarGzipNativeHandler);
+    });
+  });
 });
@@ -0,0 +1,72 @@
+/**
+ * Tests for rsyncable gzip output
+ */
+
+import * as crypto from 'crypto';
+import {Readable, Writable} from 'stream';
+import {pipeline} from 'stream/promises';
+import {gunzipSync, gzipSync} from 'zlib';
+import {createRsyncableGzip} from '../rsyncable';
+
+async function compress(data: Buffer): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  await pipeline(
+    Readable.from([data]),
+    createRsyncableGzip(6),
+    new Writable({
+      write(chunk: Buffer, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    })
+  );
+  return Buffer.concat(chunks);
+}
+
+function commonSuffixLength(a: Buffer, b: Buffer): number {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+}
+
+describe('createRsyncableGzip()', () => {
+  // Compressible, but without repeats across block boundaries
+  const data = Buffer.from(crypto.randomBytes(4 * 1024 * 1024).toString('hex'));
+  const edited = Buffer.concat([
+    data.subarray(0, 1024 * 1024),
+    Buffer.from('inserted'),
+    data.subarray(1024 * 1024),
+  ]);
+
+  test('should decompress to the original data', async () => {
+    const archive = await compress(data);
+
+    expect(gunzipSync(archive).equals(data)).toBe(true);
+    expect(archive.length).toBeLessThan(data.length);
+    // OS byte of the first member's header is always "unknown"
+    expect(archive[9]).toBe(0xff);
+  });
+
+  test('should compress data after an edit to the same bytes', async () => {
+    const archive = await compress(data);
+    const editedArchive = await compress(edited);
+
+    expect(commonSuffixLength(archive, editedArchive)).toBeGreaterThan(
+      archive.length / 2
+    );
+    // A single gzip stream differs all the way to the end
+    expect(commonSuffixLength(gzipSync(data), gzipSync(edited))).toBeLessThan(
+      1024
+    );
+  });
+
+  test('should compress empty input to an empty gzip stream', async () => {
+    expect(gunzipSync(await compress(Buffer.alloc(0))).length).toBe(0);
+  });
+});
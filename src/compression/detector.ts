@@ -1,5 +1,5 @@
 /**
- * Compression tool detection with caching
+ * Compression tool detection with caching, and archive format sniffing
  */
 
 import * as core from '@actions/core';
@@ -181,3 +181,34 @@ export function getCachedDetection(
 export function clearDetectionCache(): void {
   detectionCache.clear();
 }
+
+/**
+ * Number of leading archive bytes needed by detectArchiveFormat()
+ */
+export const ARCHIVE_HEADER_SIZE = 4;
+
+// Leading magic bytes of each archive format written by the handlers
+const ARCHIVE_SIGNATURES: Array<{format: CompressionFormat; magic: number[]}> =
+  [
+    {format: CompressionFormat.TAR_GZIP, magic: [0x1f, 0x8b]},
+    {format: CompressionFormat.ZIP, magic: [0x50, 0x4b, 0x03, 0x04]},
+    {format: CompressionFormat.ZIP, magic: [0x50, 0x4b, 0x05, 0x06]}, // Empty zip
+    {format: CompressionFormat.LZ4, magic: [0x04, 0x22, 0x4d, 0x18]}, // LZ4 frame
+  ];
+
+/**
+ * Detect the format of a stored archive from its leading bytes
+ * Gzip data is reported as tar+gzip, since both gzip handlers also write
+ * tar.gz archives. Returns null if the format is not recognized.
+ */
+export function detectArchiveFormat(header: Buffer): CompressionFormat | null {
+  for (const {format, magic} of ARCHIVE_SIGNATURES) {
+    if (
+      header.length >= magic.length &&
+      magic.every((byte, i) => header[i] === byte)
+    ) {
+      return format;
+    }
+  }
+  return null;
+}
@@ -173,3 +173,65 @@ export async function getCompressionHandler(
 export function getAllHandlers(): CompressionHandler[] {
   return [...handlerRegistry];
 }
+
+/**
+ * Check whether a handler can extract archives of the given format
+ * Both gzip handlers write tar.gz archives, so they are interchangeable with
+ * the tar+gzip handlers.
+ */
+function canExtract(
+  handler: CompressionHandler,
+  format: CompressionFormat
+): boolean {
+  const gzipFamily = [CompressionFormat.TAR_GZIP, CompressionFormat.GZIP];
+  if (gzipFamily.includes(format)) {
+    return gzipFamily.includes(handler.format);
+  }
+  return handler.format === format;
+}
+
+/**
+ * Get the handler to extract an archive of a detected format
+ * Handlers matching the backend preference are tried first, but any handler
+ * able to read the format is used rather than failing the restore. When the
+ * format could not be detected, the best handler for the backend is used.
+ *
+ * @param format - Detected archive format, or null if unknown
+ * @param backend - Compression backend preference: 'auto' (default), 'native', or 'shell'
+ */
+export async function getExtractionHandler(
+  format: CompressionFormat | null,
+  backend: CompressionBackend = 'auto'
+): Promise<CompressionHandler> {
+  if (!format) {
+    core.warning(
+      'Could not detect the archive format - using the default handler'
+    );
+    return getBestCompressionHandler(backend);
+  }
+
+  core.info(`🔧 Detected archive format: ${format}`);
+
+  const candidates = handlerRegistry
+    .filter(h => canExtract(h, format))
+    .sort((a, b) => b.priority - a.priority);
+  const preferred = filterHandlersByBackend(candidates, backend);
+  const fallbacks = candidates.filter(h => !preferred.includes(h));
+
+  for (const handler of [...preferred, ...fallbacks]) {
+    if (await handler.detect()) {
+      if (!preferred.includes(handler)) {
+        core.info(
+          `   No '${backend}' handler can read ${format} - using ${handler.constructor.name}`
+        );
+      }
+      core.debug(`  Extraction handler: ${handler.constructor.name}`);
+      return handler;
+    }
+    core.debug(`  ${handler.constructor.name}: Not available`);
+  }
+
+  throw new Error(
+    `No compression handler available to extract ${format} archives`
+  );
+}
@@ -418,4 +418,28 @@ describe('Lz4NativeHandler', () => {
       expect(stats.mode & 0o777).toBe(0o755);
     });
   });
+
+  describe('reproducible archives', () => {
+    test('should produce identical archives from identical inputs', async () => {
+      const archives: Buffer[] = [];
+
+      for (const [name, mode, time] of [
+        ['first', 0o644, 1000000000],
+        ['second', 0o600, 2000000000],
+      ] as const) {
+        const root = path.join(testDir, name, 'tree');
+        fs.mkdirSync(root, {recursive: true});
+        const file = path.join(root, 'file.txt');
+        fs.writeFileSync(file, 'same content');
+        fs.chmodSync(file, mode);
+        fs.utimesSync(file, time, time);
+
+        const output = path.join(testDir, `${name}.tar.lz4`);
+        await handler.compress([root], output, 6, {reproducible: true});
+        archives.push(fs.readFileSync(output));
+      }
+
+      expect(archives[0].equals(archives[1])).toBe(true);
+    });
+  });
 });
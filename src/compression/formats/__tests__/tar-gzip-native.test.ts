@@ -2,9 +2,11 @@
  * Tests for native tar+gzip compression handler
  */
 
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import {Readable, Writable} from 'stream';
 import {TarGzipNativeHandler} from '../tar-gzip-native';
 import {CompressionFormat} from '../../types';
 
@@ -311,4 +313,150 @@ describe('TarGzipNativeHandler', () => {
       }
     });
   });
+
+  describe('compressToStream()', () => {
+    test('should stream an archive that extracts correctly', async () => {
+      const testFile = path.join(testDir, 'streamed.txt');
+      fs.writeFileSync(testFile, 'Streamed content');
+
+      // Collect archive bytes from the stream
+      const chunks: Buffer[] = [];
+      const output = new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+      });
+      await handler.compressToStream([testFile], output, 6);
+      fs.writeFileSync(archivePath, Buffer.concat(chunks));
+
+      const extractDir = path.join(testDir, 'extract');
+      await handler.extract(archivePath, extractDir);
+
+      const extractedFile = path.join(extractDir, 'streamed.txt');
+      expect(fs.readFileSync(extractedFile, 'utf8')).toBe('Streamed content');
+    });
+
+    test('should reject when the output stream fails', async () => {
+      const testFile = path.join(testDir, 'large.bin');
+      fs.writeFileSync(testFile, Buffer.alloc(1024 * 1024, 'x'));
+
+      const output = new Writable({
+        write(_chunk, _encoding, callback) {
+          callback(new Error('upload failed'));
+        },
+      });
+
+      await expect(
+        handler.compressToStream([testFile], output, 6)
+      ).rejects.toThrow('upload failed');
+    });
+  });
+
+  describe('reproducible archives', () => {
+    // Builds the same tree each time, in a different order with fresh
+    // mtimes and modes
+    const createTree = (root: string, reverse: boolean) => {
+      const files = ['a.txt', 'b.txt', 'sub/c.txt'];
+      fs.mkdirSync(path.join(root, 'sub'), {recursive: true});
+      for (const file of reverse ? [...files].reverse() : files) {
+        fs.writeFileSync(path.join(root, file), `content of ${file}`);
+        fs.chmodSync(path.join(root, file), reverse ? 0o600 : 0o644);
+      }
+      const mtime = new Date(reverse ? 2000000000000 : 1000000000000);
+      fs.utimesSync(path.join(root, 'a.txt'), mtime, mtime);
+      return root;
+    };
+
+    test('should produce identical archives from identical inputs', async () => {
+      const first = createTree(path.join(testDir, 'first', 'tree'), false);
+      const second = createTree(path.join(testDir, 'second', 'tree'), true);
+      const firstArchive = path.join(testDir, 'first.tar.gz');
+      const secondArchive = path.join(testDir, 'second.tar.gz');
+
+      await handler.compress([first], firstArchive, 6, {reproducible: true});
+      await handler.compress([second], secondArchive, 6, {
+        reproducible: true,
+      });
+
+      const archive = fs.readFileSync(firstArchive);
+      expect(archive.equals(fs.readFileSync(secondArchive))).toBe(true);
+      // OS byte of the gzip header is always "unknown"
+      expect(archive[9]).toBe(0xff);
+
+      const extractDir = path.join(testDir, 'extract');
+      await handler.extract(firstArchive, extractDir);
+      expect(
+        fs.readFileSync(path.join(extractDir, 'tree', 'sub', 'c.txt'), 'utf8')
+      ).toBe('content of sub/c.txt');
+    });
+
+    test('should keep real attributes outside of reproducible mode', async () => {
+      const first = createTree(path.join(testDir, 'first', 'tree'), false);
+      const second = createTree(path.join(testDir, 'second', 'tree'), true);
+      const firstArchive = path.join(testDir, 'first.tar.gz');
+      const secondArchive = path.join(testDir, 'second.tar.gz');
+
+      await handler.compress([first], firstArchive, 6);
+      await handler.compress([second], secondArchive, 6);
+
+      expect(
+        fs.readFileSync(firstArchive).equals(fs.readFileSync(secondArchive))
+      ).toBe(false);
+    });
+  });
+
+  describe('rsyncable archives', () => {
+    test('should extract an archive compressed in blocks', async () => {
+      const sourceDir = path.join(testDir, 'source');
+      fs.mkdirSync(sourceDir);
+      const content = crypto.randomBytes(3 * 1024 * 1024).toString('hex');
+      fs.writeFileSync(path.join(sourceDir, 'large.txt'), content);
+      fs.writeFileSync(path.join(sourceDir, 'small.txt'), 'small');
+
+      await handler.compress([sourceDir], archivePath, 6, {rsyncable: true});
+
+      const extractDir = path.join(testDir, 'extract');
+      await handler.extract(archivePath, extractDir);
+      expect(
+        fs.readFileSync(path.join(extractDir, 'source', 'large.txt'), 'utf8')
+      ).toBe(content);
+      expect(
+        fs.readFileSync(path.join(extractDir, 'source', 'small.txt'), 'utf8')
+      ).toBe('small');
+    });
+  });
+
+  describe('extractFromStream()', () => {
+    test('should extract an archive read from a stream', async () => {
+      const testFile = path.join(testDir, 'test.txt');
+      fs.writeFileSync(testFile, 'Hello, Stream!');
+      await handler.compress([testFile], archivePath, 6);
+
+      // Feed the archive in small pieces, as chunked restores do
+      const archive = fs.readFileSync(archivePath);
+      const pieces: Buffer[] = [];
+      for (let i = 0; i < archive.length; i += 16) {
+        pieces.push(archive.subarray(i, i + 16));
+      }
+
+      const extractDir = path.join(testDir, 'extract');
+      await handler.extractFromStream(Readable.from(pieces), extractDir);
+
+      const extractedFile = path.join(extractDir, 'test.txt');
+      expect(fs.readFileSync(extractedFile, 'utf8')).toBe('Hello, Stream!');
+    });
+
+    test('should reject when the input stream fails', async () => {
+      const input = new Readable({
+        read() {
+          this.destroy(new Error('chunk missing'));
+        },
+      });
+
+      await expect(
+        handler.extractFromStream(input, path.join(testDir, 'extract'))
+      ).rejects.toThrow('chunk missing');
+    });
+  });
 });
@@ -8,7 +8,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as lz4 from 'lz4js';
 import * as tar from 'tar-stream';
-import {CompressionFormat, CompressionHandler} from '../types';
+import {ArchiveOptions, CompressionFormat, CompressionHandler} from '../types';
+import {packPaths} from '../tar';
 import {formatBytes} from '../../utils';
 
 export class Lz4NativeHandler implements CompressionHandler {
@@ -23,7 +24,8 @@ export class Lz4NativeHandler implements CompressionHandler {
   async compress(
     paths: string[],
     outputFile: string,
-    compressionLevel: number
+    compressionLevel: number,
+    options: ArchiveOptions = {}
   ): Promise<void> {
     core.debug(
       `[lz4-native] Creating archive with ${paths.length} paths at level ${compressionLevel}`
@@ -33,38 +35,22 @@ export class Lz4NativeHandler implements CompressionHandler {
       '[lz4-native] Note: Creating tar+lz4 archive (tar + lz4 compression)'
     );
 
-    const workingDir = process.cwd();
     const pack = tar.pack();
 
-    let totalFiles = 0;
+    // Collect tar data into buffer
+    const tarChunks: Buffer[] = [];
+    pack.on('data', (chunk: Buffer) => {
+      tarChunks.push(chunk);
+    });
+    const packed = new Promise<void>((resolve, reject) => {
+      pack.on('end', () => resolve());
+      pack.on('error', reject);
+    });
+    packed.catch(() => undefined); // Surfaced once packing is done
 
     try {
-      // Process each path
-      for (const sourcePath of paths) {
-        const absolutePath = path.isAbsolute(sourcePath)
-          ? sourcePath
-          : path.resolve(workingDir, sourcePath);
-
-        // Use basename for archiving to avoid path traversal issues
-        const archiveName = path.basename(absolutePath);
-
-        await this.addToTar(pack, absolutePath, archiveName);
-        totalFiles++;
-      }
-
-      // Finalize the tar archive
-      pack.finalize();
-
-      // Collect tar data into buffer
-      const tarChunks: Buffer[] = [];
-      pack.on('data', (chunk: Buffer) => {
-        tarChunks.push(chunk);
-      });
-
-      await new Promise<void>((resolve, reject) => {
-        pack.on('end', () => resolve());
-        pack.on('error', reject);
-      });
+      const totalFiles = await packPaths(pack, paths, options, '[lz4-native]');
+      await packed;
 
       // Combine tar chunks
       const tarBuffer = Buffer.concat(tarChunks);
@@ -94,84 +80,6 @@ export class Lz4NativeHandler implements CompressionHandler {
     }
   }
 
-  private async addToTar(
-    pack: tar.Pack,
-    absolutePath: string,
-    relativePath: string
-  ): Promise<void> {
-    try {
-      const stats = await fs.promises.lstat(absolutePath);
-
-      if (stats.isSymbolicLink()) {
-        // Add symbolic link
-        const linkTarget = await fs.promises.readlink(absolutePath);
-        pack.entry(
-          {
-            name: relativePath,
-            type: 'symlink',
-            linkname: linkTarget,
-            mode: stats.mode,
-            mtime: stats.mtime,
-          },
-          (err) => {
-            if (err)
-              core.warning(
-                `[lz4-native] Failed to add symlink ${relativePath}: ${err.message}`
-              );
-          }
-        );
-      } else if (stats.isDirectory()) {
-        // Add directory
-        pack.entry(
-          {
-            name: relativePath + '/',
-            type: 'directory',
-            mode: stats.mode,
-            mtime: stats.mtime,
-          },
-          (err) => {
-            if (err)
-              core.warning(
-                `[lz4-native] Failed to add directory ${relativePath}: ${err.message}`
-              );
-          }
-        );
-
-        // Recursively add directory contents
-        const entries = await fs.promises.readdir(absolutePath);
-        for (const entry of entries) {
-          const entryAbsolute = path.join(absolutePath, entry);
-          const entryRelative = path.join(relativePath, entry);
-          await this.addToTar(pack, entryAbsolute, entryRelative);
-        }
-      } else if (stats.isFile()) {
-        // Add file
-        const fileContent = await fs.promises.readFile(absolutePath);
-        await new Promise<void>((resolve, reject) => {
-          const entry = pack.entry(
-            {
-              name: relativePath,
-              type: 'file',
-              size: stats.size,
-              mode: stats.mode,
-              mtime: stats.mtime,
-            },
-            (err) => {
-              if (err) reject(err);
-              else resolve();
-            }
-          );
-          entry.write(fileContent);
-          entry.end();
-        });
-      }
-    } catch (error) {
-      // Log warning but continue with other files
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      core.warning(`[lz4-native] Failed to add ${relativePath}: ${errorMsg}`);
-    }
-  }
-
   async extract(archivePath: string, targetDir: string): Promise<void> {
     core.debug(`[lz4-native] Extracting archive: ${archivePath}`);
     core.debug(`[lz4-native] Target directory: ${targetDir}`);
@@ -7,8 +7,12 @@ import * as core from '@actions/core';
 import * as fs from 'fs';
 import * as path from 'path';
 import {createGzip, createGunzip, constants as zlibConstants} from 'zlib';
+import {Readable, Writable} from 'stream';
 import * as tar from 'tar-stream';
-import {CompressionFormat, CompressionHandler} from '../types';
+import {ArchiveOptions, CompressionFormat, CompressionHandler} from '../types';
+import {createGzipHeaderNormalizer} from '../reproducible';
+import {createRsyncableGzip} from '../rsyncable';
+import {writeTarArchive} from '../tar';
 import {formatBytes} from '../../utils';
 
 export class TarGzipNativeHandler implements CompressionHandler {
@@ -23,62 +27,24 @@ export class TarGzipNativeHandler implements CompressionHandler {
   async compress(
     paths: string[],
     outputFile: string,
-    compressionLevel: number
+    compressionLevel: number,
+    options: ArchiveOptions = {}
   ): Promise<void> {
     core.debug(
       `[tar+gzip-native] Creating archive with ${paths.length} paths at level ${compressionLevel}`
     );
     core.debug(`[tar+gzip-native] Output: ${outputFile}`);
 
-    const workingDir = process.cwd();
-    const pack = tar.pack();
-    const gzip = createGzip({
-      level: compressionLevel,
-      memLevel: zlibConstants.Z_DEFAULT_MEMLEVEL,
-    });
-
-    // Create output stream
     const output = fs.createWriteStream(outputFile);
 
-    // Pipe: pack -> gzip -> file
-    pack.pipe(gzip).pipe(output);
-
-    let totalFiles = 0;
-    let totalBytes = 0;
-
     try {
-      // Process each path
-      for (const sourcePath of paths) {
-        const absolutePath = path.isAbsolute(sourcePath)
-          ? sourcePath
-          : path.resolve(workingDir, sourcePath);
-
-        // Use basename for archiving to avoid path traversal issues
-        const archiveName = path.basename(absolutePath);
-
-        await this.addToTar(pack, absolutePath, archiveName);
-        totalFiles++;
-      }
+      await this.compressToStream(paths, output, compressionLevel, options);
 
-      // Finalize the tar archive
-      pack.finalize();
-
-      // Wait for all streams to finish
-      await new Promise<void>((resolve, reject) => {
-        output.on('finish', () => {
-          const stats = fs.statSync(outputFile);
-          totalBytes = stats.size;
-          core.debug(
-            `[tar+gzip-native] Archive created: ${formatBytes(totalBytes)} (${totalFiles} files)`
-          );
-          resolve();
-        });
-        output.on('error', reject);
-        gzip.on('error', reject);
-        pack.on('error', reject);
-      });
+      const stats = fs.statSync(outputFile);
+      core.debug(`[tar+gzip-native] Archive size: ${formatBytes(stats.size)}`);
     } catch (error) {
       // Clean up partial archive on error
+      output.destroy();
       if (fs.existsSync(outputFile)) {
         fs.unlinkSync(outputFile);
       }
@@ -86,84 +52,37 @@ export class TarGzipNativeHandler implements CompressionHandler {
     }
   }
 
-  private async addToTar(
-    pack: tar.Pack,
-    absolutePath: string,
-    relativePath: string
+  async compressToStream(
+    paths: string[],
+    output: Writable,
+    compressionLevel: number,
+    options: ArchiveOptions = {}
   ): Promise<void> {
-    try {
-      const stats = await fs.promises.lstat(absolutePath);
-
-      if (stats.isSymbolicLink()) {
-        // Add symbolic link
-        const linkTarget = await fs.promises.readlink(absolutePath);
-        pack.entry(
-          {
-            name: relativePath,
-            type: 'symlink',
-            linkname: linkTarget,
-            mode: stats.mode,
-            mtime: stats.mtime,
-          },
-          (err) => {
-            if (err)
-              core.warning(
-                `[tar+gzip-native] Failed to add symlink ${relativePath}: ${err.message}`
-              );
-          }
-        );
-      } else if (stats.isDirectory()) {
-        // Add directory
-        pack.entry(
-          {
-            name: relativePath + '/',
-            type: 'directory',
-            mode: stats.mode,
-            mtime: stats.mtime,
-          },
-          (err) => {
-            if (err)
-              core.warning(
-                `[tar+gzip-native] Failed to add directory ${relativePath}: ${err.message}`
-              );
-          }
-        );
-
-        // Recursively add directory contents
-        const entries = await fs.promises.readdir(absolutePath);
-        for (const entry of entries) {
-          const entryAbsolute = path.join(absolutePath, entry);
-          const entryRelative = path.join(relativePath, entry);
-          await this.addToTar(pack, entryAbsolute, entryRelative);
-        }
-      } else if (stats.isFile()) {
-        // Add file
-        const fileContent = await fs.promises.readFile(absolutePath);
-        await new Promise<void>((resolve, reject) => {
-          const entry = pack.entry(
-            {
-              name: relativePath,
-              type: 'file',
-              size: stats.size,
-              mode: stats.mode,
-              mtime: stats.mtime,
-            },
-            (err) => {
-              if (err) reject(err);
-              else resolve();
-            }
-          );
-          entry.write(fileContent);
-          entry.end();
-        });
-      }
-    } catch (error) {
-      // Log warning but continue with other files
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      core.warning(
-        `[tar+gzip-native] Failed to add ${relativePath}: ${errorMsg}`
+    if (options.rsyncable) {
+      // Pipe: pack -> gzip per block -> output
+      await writeTarArchive(
+        paths,
+        output,
+        [createRsyncableGzip(compressionLevel)],
+        options,
+        '[tar+gzip-native]'
       );
+      return;
     }
+
+    const gzip = createGzip({
+      level: compressionLevel,
+      memLevel: zlibConstants.Z_DEFAULT_MEMLEVEL,
+    });
+
+    // Pipe: pack -> gzip -> header -> output
+    await writeTarArchive(
+      paths,
+      output,
+      [gzip, createGzipHeaderNormalizer()],
+      options,
+      '[tar+gzip-native]'
+    );
   }
 
   async extract(archivePath: string, targetDir: string): Promise<void> {
@@ -178,12 +97,15 @@ export class TarGzipNativeHandler implements CompressionHandler {
       throw new Error(`Archive file not found: ${archivePath}`);
     }
 
+    await this.extractFromStream(fs.createReadStream(archivePath), targetDir);
+  }
+
+  async extractFromStream(input: Readable, targetDir: string): Promise<void> {
     // Ensure target directory exists
     await fs.promises.mkdir(targetDir, {recursive: true});
 
     const extract = tar.extract();
     const gunzip = createGunzip();
-    const input = fs.createReadStream(archivePath);
 
     let extractedFiles = 0;
 
@@ -255,7 +177,7 @@ export class TarGzipNativeHandler implements CompressionHandler {
       }
     });
 
-    // Pipe: file -> gunzip -> extract
+    // Pipe: input -> gunzip -> extract
     input.pipe(gunzip).pipe(extract);
 
     // Wait for extraction to complete
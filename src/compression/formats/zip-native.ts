@@ -8,6 +8,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import archiver from 'archiver';
 import unzipper from 'unzipper';
+import {Readable, Writable} from 'stream';
 import {CompressionFormat, CompressionHandler} from '../types';
 import {formatBytes} from '../../utils';
 
@@ -30,14 +31,34 @@ export class ZipNativeHandler implements CompressionHandler {
     );
     core.debug(`[zip-native] Output: ${outputFile}`);
 
-    const workingDir = process.cwd();
     const output = fs.createWriteStream(outputFile);
+
+    try {
+      await this.compressToStream(paths, output, compressionLevel);
+
+      const stats = fs.statSync(outputFile);
+      core.debug(`[zip-native] Archive size: ${formatBytes(stats.size)}`);
+    } catch (error) {
+      // Clean up partial archive on error
+      output.destroy();
+      if (fs.existsSync(outputFile)) {
+        fs.unlinkSync(outputFile);
+      }
+      throw error;
+    }
+  }
+
+  async compressToStream(
+    paths: string[],
+    output: Writable,
+    compressionLevel: number
+  ): Promise<void> {
+    const workingDir = process.cwd();
     const archive = archiver('zip', {
       zlib: {level: compressionLevel},
     });
 
     let totalFiles = 0;
-    let totalBytes = 0;
 
     // Track archive progress
     archive.on('entry', (entry) => {
@@ -45,22 +66,24 @@ export class ZipNativeHandler implements CompressionHandler {
       core.debug(`[zip-native] Adding: ${entry.name}`);
     });
 
-    archive.on('warning', (err) => {
-      if (err.code === 'ENOENT') {
-        core.warning(`[zip-native] File not found: ${err.message}`);
-      } else {
-        throw err;
-      }
-    });
-
-    archive.on('error', (err) => {
-      throw err;
+    // Settles when the output has been flushed or any stage fails
+    const finished = new Promise<void>((resolve, reject) => {
+      archive.on('warning', (err) => {
+        if (err.code === 'ENOENT') {
+          core.warning(`[zip-native] File not found: ${err.message}`);
+        } else {
+          reject(err);
+        }
+      });
+      archive.on('error', reject);
+      output.on('finish', resolve);
+      output.on('error', reject);
     });
 
-    // Pipe archive to output file
+    // Pipe archive to output
     archive.pipe(output);
 
-    try {
+    const addAll = async (): Promise<void> => {
       // Add each path to the archive
       for (const sourcePath of paths) {
         const absolutePath = path.isAbsolute(sourcePath)
@@ -98,25 +121,23 @@ export class ZipNativeHandler implements CompressionHandler {
 
       // Finalize the archive
       await archive.finalize();
+    };
 
-      // Wait for output stream to finish
-      await new Promise<void>((resolve, reject) => {
-        output.on('close', () => {
-          totalBytes = archive.pointer();
-          core.debug(
-            `[zip-native] Archive created: ${formatBytes(totalBytes)} (${totalFiles} entries)`
-          );
-          resolve();
-        });
-        output.on('error', reject);
-      });
+    const adding = addAll();
+    adding.catch(() => undefined); // Surfaced through the race below
+
+    try {
+      // A failing output stops consuming the archive, so don't wait on it alone
+      await Promise.race([adding, finished]);
+      await finished;
     } catch (error) {
-      // Clean up partial archive on error
-      if (fs.existsSync(outputFile)) {
-        fs.unlinkSync(outputFile);
-      }
+      archive.abort();
       throw error;
     }
+
+    core.debug(
+      `[zip-native] Archive created: ${formatBytes(archive.pointer())} (${totalFiles} entries)`
+    );
   }
 
   async extract(archivePath: string, targetDir: string): Promise<void> {
@@ -131,6 +152,10 @@ export class ZipNativeHandler implements CompressionHandler {
       throw new Error(`Archive file not found: ${archivePath}`);
     }
 
+    await this.extractFromStream(fs.createReadStream(archivePath), targetDir);
+  }
+
+  async extractFromStream(input: Readable, targetDir: string): Promise<void> {
     // Ensure target directory exists
     await fs.promises.mkdir(targetDir, {recursive: true});
 
@@ -139,7 +164,8 @@ export class ZipNativeHandler implements CompressionHandler {
 
     try {
       await new Promise<void>((resolve, reject) => {
-        fs.createReadStream(archivePath)
+        input.on('error', reject);
+        input
           .pipe(unzipper.Parse())
           .on('entry', (entry: unzipper.Entry) => {
             const fileName = entry.path;
@@ -7,9 +7,14 @@
  * - Automatic selection of best available format
  * - Format-specific handlers with unified interface
  * - Detection result caching for performance
+ * - Archive format sniffing to restore entries saved in any format
+ * - Reproducible archive output from the native tar handlers
+ * - Rsyncable gzip output for chunk deduplication
  */
 
 export * from './types';
 export * from './detector';
 export * from './factory';
 export * from './formats';
+export * from './reproducible';
+export * from './rsyncable';
@@ -0,0 +1,85 @@
+/**
+ * Reproducible archive output for the native tar handlers
+ *
+ * Tar headers normally record whatever the file system reports, so the same
+ * tree archived twice differs in every mtime, and between runners in owners
+ * and modes as well. In reproducible mode, entry attributes are normalized:
+ * - mtime: SOURCE_DATE_EPOCH when set, otherwise the Unix epoch
+ * - owner: uid/gid 0 with empty user and group names
+ * - mode: 0755 for directories and executable files, 0644 for other files
+ *
+ * Entries are always added in sorted order, and gzip output always carries
+ * the same header, so identical inputs give byte-identical archives.
+ */
+
+import * as fs from 'fs';
+import {Transform} from 'stream';
+
+// Offset of the OS byte in a gzip header (RFC 1952)
+export const GZIP_OS_OFFSET = 9;
+export const GZIP_OS_UNKNOWN = 0xff;
+
+export interface TarEntryAttributes {
+  mode: number;
+  mtime: Date;
+  uid?: number;
+  gid?: number;
+  uname?: string;
+  gname?: string;
+}
+
+/**
+ * Get the mtime recorded for every entry of a reproducible archive
+ */
+export function getReproducibleMtime(): Date {
+  const epoch = parseInt(process.env.SOURCE_DATE_EPOCH || '', 10);
+  return new Date(Number.isNaN(epoch) ? 0 : epoch * 1000);
+}
+
+/**
+ * Get the tar header attributes of an entry
+ * Outside of reproducible mode, the file's own mode and mtime are kept.
+ */
+export function getTarEntryAttributes(
+  stats: fs.Stats,
+  reproducible = false
+): TarEntryAttributes {
+  if (!reproducible) {
+    return {mode: stats.mode, mtime: stats.mtime};
+  }
+
+  let mode = 0o644;
+  if (stats.isSymbolicLink()) {
+    mode = 0o777;
+  } else if (stats.isDirectory() || (stats.mode & 0o111) !== 0) {
+    mode = 0o755;
+  }
+
+  return {
+    mode,
+    mtime: getReproducibleMtime(),
+    uid: 0,
+    gid: 0,
+    uname: '',
+    gname: '',
+  };
+}
+
+/**
+ * Rewrite the OS byte of a gzip stream's header
+ * zlib records the platform it was built for, so the same archive compressed
+ * on Linux, macOS and Windows would differ in that one byte.
+ */
+export function createGzipHeaderNormalizer(): Transform {
+  let offset = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      if (offset <= GZIP_OS_OFFSET && GZIP_OS_OFFSET < offset + chunk.length) {
+        chunk[GZIP_OS_OFFSET - offset] = GZIP_OS_UNKNOWN;
+      }
+      offset += chunk.length;
+      callback(null, chunk);
+    },
+  });
+}
@@ -0,0 +1,55 @@
+/**
+ * Rsyncable gzip output for the native gzip handlers
+ *
+ * Deflate carries state forward, so one changed file alters every compressed
+ * byte after it and content-defined chunking of the output finds nothing to
+ * share with the previous archive. In rsyncable mode, the tar stream is split
+ * at content-defined boundaries first and each block is compressed as a
+ * separate gzip member. Blocks whose contents didn't change compress to the
+ * same bytes, so the archive only differs around the files that did.
+ *
+ * Concatenated gzip members are a valid gzip stream (RFC 1952), so these
+ * archives extract like any other. Compression restarts at every block, which
+ * costs well under 1% of the archive size at the default block sizes.
+ */
+
+import {Transform} from 'stream';
+import {promisify} from 'util';
+import {gzip as gzipCallback} from 'zlib';
+import {ContentDefinedChunker} from '../redis/chunker';
+import {GZIP_OS_OFFSET, GZIP_OS_UNKNOWN} from './reproducible';
+
+const gzip = promisify(gzipCallback);
+
+/**
+ * Compress a stream into one gzip member per content-defined block
+ * Each member's header records an unknown OS, as createGzipHeaderNormalizer
+ * does for single-member streams.
+ */
+export function createRsyncableGzip(compressionLevel: number): Transform {
+  const chunker = new ContentDefinedChunker();
+  let members = 0;
+
+  const compress = async (
+    blocks: Buffer[],
+    output: Transform
+  ): Promise<void> => {
+    for (const block of blocks) {
+      const member = await gzip(block, {level: compressionLevel});
+      member[GZIP_OS_OFFSET] = GZIP_OS_UNKNOWN;
+      output.push(member);
+      members++;
+    }
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      compress(chunker.push(chunk), this).then(() => callback(), callback);
+    },
+    flush(callback) {
+      // Empty input still makes a valid gzip stream of one empty member
+      const last = chunker.flush() ?? (members === 0 ? Buffer.alloc(0) : null);
+      compress(last ? [last] : [], this).then(() => callback(), callback);
+    },
+  });
+}
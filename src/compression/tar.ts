@@ -0,0 +1,182 @@
+/**
+ * Tar packing shared by the native tar handlers
+ *
+ * Paths are added in sorted order, directories are walked in sorted order,
+ * and entry attributes come from getTarEntryAttributes, so reproducible
+ * archives only depend on the files being archived.
+ */
+
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import {Transform, Writable} from 'stream';
+import * as tar from 'tar-stream';
+import {ArchiveOptions} from './types';
+import {getTarEntryAttributes} from './reproducible';
+
+/**
+ * Add the paths to a tar pack and finalize it
+ * Paths are archived under their basename to avoid path traversal issues.
+ * Entries that can't be read are logged and skipped. Returns the number of
+ * paths added.
+ */
+export async function packPaths(
+  pack: tar.Pack,
+  paths: string[],
+  options: ArchiveOptions,
+  tag: string
+): Promise<number> {
+  const workingDir = process.cwd();
+  const reproducible = options.reproducible === true;
+  let totalFiles = 0;
+
+  if (reproducible) {
+    core.debug(`${tag} Normalizing entry mtimes, ownership and modes`);
+  }
+
+  // Process each path, in a stable order
+  for (const sourcePath of [...paths].sort()) {
+    const absolutePath = path.isAbsolute(sourcePath)
+      ? sourcePath
+      : path.resolve(workingDir, sourcePath);
+
+    await addToTar(
+      pack,
+      absolutePath,
+      path.basename(absolutePath),
+      reproducible,
+      tag
+    );
+    totalFiles++;
+  }
+
+  // Finalize the tar archive
+  pack.finalize();
+  return totalFiles;
+}
+
+/**
+ * Write a tar archive of the paths through a chain of compression stages
+ * Settles once the output has been flushed; if any stage or the output
+ * fails, every stage is destroyed and the error is rethrown.
+ */
+export async function writeTarArchive(
+  paths: string[],
+  output: Writable,
+  stages: Transform[],
+  options: ArchiveOptions,
+  tag: string
+): Promise<void> {
+  const pack = tar.pack();
+  const streams = [pack, ...stages];
+
+  // Pipe: pack -> stages -> output
+  let tail: NodeJS.ReadableStream = pack;
+  for (const stage of stages) {
+    tail = tail.pipe(stage);
+  }
+  tail.pipe(output);
+
+  // Settles when the output has been flushed or any stage fails
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('finish', resolve);
+    output.on('error', reject);
+    for (const stream of streams) {
+      stream.on('error', reject);
+    }
+  });
+
+  const adding = packPaths(pack, paths, options, tag);
+  adding.catch(() => undefined); // Surfaced through the race below
+
+  try {
+    // A failing output stops consuming the pack, so don't wait on it alone
+    await Promise.race([adding, finished]);
+    await finished;
+  } catch (error) {
+    for (const stream of streams) {
+      stream.destroy();
+    }
+    throw error;
+  }
+
+  core.debug(`${tag} Archive created (${await adding} files)`);
+}
+
+async function addToTar(
+  pack: tar.Pack,
+  absolutePath: string,
+  relativePath: string,
+  reproducible: boolean,
+  tag: string
+): Promise<void> {
+  try {
+    const stats = await fs.promises.lstat(absolutePath);
+    const attributes = getTarEntryAttributes(stats, reproducible);
+
+    if (stats.isSymbolicLink()) {
+      // Add symbolic link
+      const linkTarget = await fs.promises.readlink(absolutePath);
+      pack.entry(
+        {
+          name: relativePath,
+          type: 'symlink',
+          linkname: linkTarget,
+          ...attributes,
+        },
+        err => {
+          if (err)
+            core.warning(
+              `${tag} Failed to add symlink ${relativePath}: ${err.message}`
+            );
+        }
+      );
+    } else if (stats.isDirectory()) {
+      // Add directory
+      pack.entry(
+        {
+          name: relativePath + '/',
+          type: 'directory',
+          ...attributes,
+        },
+        err => {
+          if (err)
+            core.warning(
+              `${tag} Failed to add directory ${relativePath}: ${err.message}`
+            );
+        }
+      );
+
+      // Recursively add directory contents, in a stable order
+      const entries = (await fs.promises.readdir(absolutePath)).sort();
+      for (const entry of entries) {
+        const entryAbsolute = path.join(absolutePath, entry);
+        const entryRelative = path.join(relativePath, entry);
+        await addToTar(pack, entryAbsolute, entryRelative, reproducible, tag);
+      }
+    } else if (stats.isFile()) {
+      // Add file, streaming its contents to keep memory use flat
+      await new Promise<void>((resolve, reject) => {
+        const entry = pack.entry(
+          {
+            name: relativePath,
+            type: 'file',
+            size: stats.size,
+            ...attributes,
+          },
+          err => {
+            if (err) reject(err);
+            else resolve();
+          }
+        );
+        const input = fs.createReadStream(absolutePath);
+        input.on('error', err => entry.destroy(err));
+        input.pipe(entry);
+      });
+    }
+  } catch (error) {
+    // Log warning but continue with other files
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    core.warning(`${tag} Failed to add ${relativePath}: ${errorMsg}`);
+  }
+}
@@ -2,6 +2,8 @@
  * Compression module types and interfaces
  */
 
+import {Readable, Writable} from 'stream';
+
 export enum CompressionFormat {
   TAR_GZIP = 'tar+gzip',
   ZIP = 'zip',
@@ -9,6 +11,23 @@ export enum CompressionFormat {
   LZ4 = 'lz4',
 }
 
+export interface ArchiveOptions {
+  /**
+   * Normalize entry mtimes, ownership and modes, so identical inputs give
+   * byte-identical archives (see reproducible). Only the native tar handlers
+   * support this; other handlers ignore it.
+   */
+  reproducible?: boolean;
+
+  /**
+   * Compress content-defined blocks of the tar stream as separate gzip
+   * members, so unchanged files compress to the same bytes in every archive
+   * (see rsyncable). Only the native gzip handlers support this; other
+   * handlers ignore it.
+   */
+  rsyncable?: boolean;
+}
+
 export interface CompressionHandler {
   /**
    * Format identifier
@@ -33,11 +52,29 @@ export interface CompressionHandler {
    * @param paths - Array of file/directory paths to compress
    * @param outputFile - Path where archive should be created
    * @param compressionLevel - Compression level (1-9, where 9 = best compression)
+   * @param options - Archive options
    */
   compress(
     paths: string[],
     outputFile: string,
-    compressionLevel: number
+    compressionLevel: number,
+    options?: ArchiveOptions
+  ): Promise<void>;
+
+  /**
+   * Compress files/directories into a writable stream without a temp file
+   * Resolves once the output stream has finished. Handlers that can only
+   * write to a file leave this undefined.
+   * @param paths - Array of file/directory paths to compress
+   * @param output - Stream receiving the archive bytes
+   * @param compressionLevel - Compression level (1-9, where 9 = best compression)
+   * @param options - Archive options
+   */
+  compressToStream?(
+    paths: string[],
+    output: Writable,
+    compressionLevel: number,
+    options?: ArchiveOptions
   ): Promise<void>;
 
   /**
@@ -46,6 +83,14 @@ export interface CompressionHandler {
    * @param targetDir - Directory where files should be extracted
    */
   extract(archivePath: string, targetDir: string): Promise<void>;
+
+  /**
+   * Extract an archive read from a stream without a temp file
+   * Handlers that can only read from a file leave this undefined.
+   * @param input - Stream of archive bytes
+   * @param targetDir - Directory where files should be extracted
+   */
+  extractFromStream?(input: Readable, targetDir: string): Promise<void>;
 }
 
 export interface DetectionResult {
@@ -0,0 +1,29 @@
+/**
+ * Producer marker heartbeat of the main action
+ * Started in the background by the restore step once it marks a key as being
+ * built, with the key and marker token as arguments. It keeps the marker
+ * alive until the save step releases it. The runner stops leftover processes
+ * when the job ends, so the marker of a job that fails before its save step
+ * expires on its own.
+ */
+
+import * as core from '@actions/core';
+import {createRedisClient, keepProducerAlive, readCacheConfig} from './redis';
+
+async function run(fullKey: string, token: string): Promise<void> {
+  // Inputs reach this process through the environment it inherited
+  const redis = await createRedisClient(
+    readCacheConfig(name => core.getInput(name))
+  );
+  try {
+    await keepProducerAlive(redis, fullKey, token);
+  } finally {
+    await redis.quit();
+  }
+}
+
+const [fullKey, token] = process.argv.slice(2);
+run(fullKey, token).catch(() => {
+  // Without a heartbeat the marker expires on its own
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for content-defined chunking
+ */
+
+import * as crypto from 'crypto';
+import {ContentDefinedChunker} from '../chunker';
+
+const OPTIONS = {minSize: 1024, avgSize: 4096, maxSize: 16 * 1024};
+
+/**
+ * Split data into chunks, feeding the chunker pieces of the given size
+ */
+function split(data: Buffer, pieceSize: number): Buffer[] {
+  const chunker = new ContentDefinedChunker(OPTIONS);
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < data.length; i += pieceSize) {
+    chunks.push(...chunker.push(data.subarray(i, i + pieceSize)));
+  }
+  const last = chunker.flush();
+  if (last) {
+    chunks.push(last);
+  }
+  return chunks;
+}
+
+const hashes = (chunks: Buffer[]): string[] =>
+  chunks.map(c => crypto.createHash('sha256').update(c).digest('hex'));
+
+describe('ContentDefinedChunker', () => {
+  const data = crypto.randomBytes(512 * 1024);
+
+  test('should reassemble into the original data', () => {
+    const chunks = split(data, 1000);
+    expect(Buffer.concat(chunks).equals(data)).toBe(true);
+  });
+
+  test('should keep chunk sizes within bounds', () => {
+    const chunks = split(data, 1000);
+    const sizes = chunks.slice(0, -1).map(c => c.length);
+
+    expect(Math.min(...sizes)).toBeGreaterThan(OPTIONS.minSize);
+    expect(Math.max(...sizes)).toBeLessThanOrEqual(OPTIONS.maxSize);
+  });
+
+  test('should cut at the same boundaries however input is split', () => {
+    expect(hashes(split(data, 777))).toEqual(hashes(split(data, 64 * 1024)));
+    expect(hashes(split(data, data.length))).toEqual(hashes(split(data, 1)));
+  });
+
+  test('should only change chunks around an insertion', () => {
+    const edited = Buffer.concat([
+      data.subarray(0, 200 * 1024),
+      Buffer.from('inserted'),
+      data.subarray(200 * 1024),
+    ]);
+
+    const original = new Set(hashes(split(data, 4096)));
+    const changed = hashes(split(edited, 4096)).filter(h => !original.has(h));
+
+    expect(changed.length).toBeLessThanOrEqual(2);
+  });
+
+  test('should cut at the maximum size when no boundary is found', () => {
+    const chunks = split(Buffer.alloc(40 * 1024), 4096);
+    expect(chunks.map(c => c.length)).toEqual([16384, 16384, 8192]);
+  });
+
+  test('should return nothing for empty input', () => {
+    const chunker = new ContentDefinedChunker(OPTIONS);
+    expect(chunker.push(Buffer.alloc(0))).toEqual([]);
+    expect(chunker.flush()).toBeNull();
+  });
+});
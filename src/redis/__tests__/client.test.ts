@@ -0,0 +1,126 @@
+/**
+ * Tests for Redis client options
+ */
+
+import {getRedisClientOptions} from '../client';
+import {CacheConfig} from '../types';
+
+describe('Redis client', () => {
+  const base: CacheConfig = {
+    redisHost: 'valkey.example.com',
+    redisPort: 6380,
+    redisPassword: 'secret',
+    ttl: 3600,
+    compression: 6,
+    timeoutSeconds: 30,
+  };
+
+  describe('getRedisClientOptions()', () => {
+    test('should connect to a standalone server', () => {
+      const result = getRedisClientOptions(base);
+
+      expect(result.mode).toBe('standalone');
+      expect(result.options).toMatchObject({
+        host: 'valkey.example.com',
+        port: 6380,
+        password: 'secret',
+        commandTimeout: 30000,
+        lazyConnect: true,
+      });
+      expect(result.options).not.toHaveProperty('sentinels');
+    });
+
+    test('should pass the URL username and database', () => {
+      const result = getRedisClientOptions({
+        ...base,
+        redisUsername: 'cache',
+        redisDb: 2,
+      });
+
+      expect(result.options).toMatchObject({username: 'cache', db: 2});
+    });
+
+    test('should connect to a cluster through its seed nodes', () => {
+      const nodes = [
+        {host: 'node-0', port: 7000},
+        {host: 'node-1', port: 7001},
+      ];
+      const result = getRedisClientOptions({...base, clusterNodes: nodes});
+
+      if (result.mode !== 'cluster') {
+        throw new Error(`Expected cluster mode, got ${result.mode}`);
+      }
+      expect(result.nodes).toEqual(nodes);
+      expect(result.options.enableOfflineQueue).toBe(true);
+      expect(result.options.redisOptions).toMatchObject({
+        password: 'secret',
+        commandTimeout: 30000,
+      });
+    });
+
+    test('should discover the master through sentinels', () => {
+      const sentinels = [{host: 'sentinel-0', port: 26379}];
+      const result = getRedisClientOptions({
+        ...base,
+        sentinels,
+        sentinelMasterName: 'cache',
+        sentinelPassword: 'sentinel-secret',
+      });
+
+      expect(result.mode).toBe('sentinel');
+      expect(result.options).toMatchObject({
+        sentinels,
+        name: 'cache',
+        role: 'master',
+        password: 'secret',
+        sentinelPassword: 'sentinel-secret',
+        enableTLSForSentinelMode: false,
+      });
+    });
+
+    test('should authenticate sentinels with the data password by default', () => {
+      const result = getRedisClientOptions({
+        ...base,
+        sentinels: [{host: 'sentinel-0', port: 26379}],
+      });
+
+      expect(result.options).toMatchObject({sentinelPassword: 'secret'});
+    });
+
+    test('should use TLS for the server and the sentinels', () => {
+      const result = getRedisClientOptions({
+        ...base,
+        sentinels: [{host: 'sentinel-0', port: 26379}],
+        tls: {servername: 'valkey.internal', insecureSkipVerify: true},
+      });
+
+      expect(result.options).toMatchObject({
+        enableTLSForSentinelMode: true,
+        tls: {servername: 'valkey.internal', rejectUnauthorized: false},
+        sentinelTLS: {servername: 'valkey.internal', rejectUnauthorized: false},
+      });
+    });
+
+    test('should reject cluster nodes combined with sentinels', () => {
+      expect(() =>
+        getRedisClientOptions({
+          ...base,
+          clusterNodes: [{host: 'node-0', port: 7000}],
+          sentinels: [{host: 'sentinel-0', port: 26379}],
+        })
+      ).toThrow(
+        'redis-cluster-nodes and redis-sentinels cannot be used together'
+      );
+    });
+
+    test('should reject a database index in cluster mode', () => {
+      expect(() =>
+        getRedisClientOptions({
+          ...base,
+          clusterNodes: [{host: 'node-0', port: 7000}],
+          redisDb: 1,
+        })
+      ).toThrow('Redis Cluster only supports database 0');
+    });
+  });
+});
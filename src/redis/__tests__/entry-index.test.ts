@@ -0,0 +1,149 @@
+/**
+ * Tests for the per-repository entry index
+ */
+
+import {Redis} from 'ioredis';
+import {
+  addToIndex,
+  findLatestEntry,
+  indexExists,
+  refreshIndex,
+} from '../entry-index';
+import {FakeRedis} from './fake-redis';
+
+describe('Entry index', () => {
+  const indexKey = 'index:owner/repo';
+  let fake: FakeRedis;
+  let redis: Redis;
+
+  async function save(fullKey: string, savedAt: number): Promise<void> {
+    fake.set(fullKey, 'archive');
+    await addToIndex(redis, indexKey, fullKey, savedAt, 60);
+  }
+
+  beforeEach(() => {
+    fake = new FakeRedis();
+    redis = fake.client;
+  });
+
+  test('should report whether the index exists', async () => {
+    expect(await indexExists(redis, indexKey)).toBe(false);
+    await save('owner/repo:linux-npm-a', 1000);
+    expect(await indexExists(redis, indexKey)).toBe(true);
+  });
+
+  test('should return the most recently saved match, not the lexically last', async () => {
+    await save('owner/repo:linux-npm-zzz', 1000);
+    await save('owner/repo:linux-npm-aaa', 2000);
+    await save('owner/repo:linux-gradle-x', 3000);
+
+    expect(
+      await findLatestEntry(redis, indexKey, 'owner/repo:linux-npm-')
+    ).toBe('owner/repo:linux-npm-aaa');
+  });
+
+  test('should accept a trailing wildcard', async () => {
+    await save('owner/repo:linux-npm-a', 1000);
+
+    expect(
+      await findLatestEntry(redis, indexKey, 'owner/repo:linux-npm-*')
+    ).toBe('owner/repo:linux-npm-a');
+  });
+
+  test('should return null when nothing matches', async () => {
+    await save('owner/repo:linux-npm-a', 1000);
+
+    expect(
+      await findLatestEntry(redis, indexKey, 'owner/repo:macos-')
+    ).toBeNull();
+  });
+
+  test('should skip and prune entries that no longer exist', async () => {
+    await save('owner/repo:linux-npm-old', 1000);
+    await save('owner/repo:linux-npm-new', 2000);
+    fake.del('owner/repo:linux-npm-new');
+
+    expect(
+      await findLatestEntry(redis, indexKey, 'owner/repo:linux-npm-')
+    ).toBe('owner/repo:linux-npm-old');
+    expect(fake.zscore(indexKey, 'owner/repo:linux-npm-new')).toBeNull();
+  });
+
+  test('should look beyond the first batch of members', async () => {
+    for (let i = 0; i < 250; i++) {
+      await save(`owner/repo:other-${i}`, 10000 + i);
+    }
+    await save('owner/repo:linux-npm-a', 1);
+
+    expect(
+      await findLatestEntry(redis, indexKey, 'owner/repo:linux-npm-')
+    ).toBe('owner/repo:linux-npm-a');
+  });
+
+  test('should prune members older than the TTL when saving', async () => {
+    for (let i = 0; i < 150; i++) {
+      await save(`owner/repo:old-${i}`, 1000 + i);
+      fake.del(`owner/repo:old-${i}`);
+    }
+    await save('owner/repo:recent', 70000);
+    fake.del('owner/repo:recent');
+
+    await save('owner/repo:linux-npm-a', 90000);
+
+    expect(fake.zrange(indexKey, 0, -1)).toEqual([
+      'owner/repo:recent',
+      'owner/repo:linux-npm-a',
+    ]);
+  });
+
+  test('should keep older members whose entry still exists', async () => {
+    await save('owner/repo:refreshed', 1000);
+    await addToIndex(redis, indexKey, 'owner/repo:release', 2000, null);
+    fake.set('owner/repo:release', 'archive');
+
+    await save('owner/repo:linux-npm-a', 90000);
+
+    expect(fake.zrange(indexKey, 0, -1)).toEqual([
+      'owner/repo:refreshed',
+      'owner/repo:release',
+      'owner/repo:linux-npm-a',
+    ]);
+  });
+
+  test('should update the score when an entry is saved again', async () => {
+    await save('owner/repo:linux-npm-a', 1000);
+    await save('owner/repo:linux-npm-b', 2000);
+    await save('owner/repo:linux-npm-a', 3000);
+
+    expect(
+      await findLatestEntry(redis, indexKey, 'owner/repo:linux-npm-')
+    ).toBe('owner/repo:linux-npm-a');
+  });
+
+  test('should refresh the expiry of the index', async () => {
+    await save('owner/repo:linux-npm-a', 1000);
+    expect(fake.ttls.get(indexKey)).toBe(60);
+
+    await refreshIndex(redis, indexKey, 3600);
+    expect(fake.ttls.get(indexKey)).toBe(3600);
+  });
+
+  test('should not shorten the expiry when a shorter-lived entry is saved', async () => {
+    await addToIndex(redis, indexKey, 'owner/repo:main', 1000, 3600);
+    await addToIndex(redis, indexKey, 'owner/repo:pr', 2000, 60);
+    expect(fake.ttls.get(indexKey)).toBe(3600);
+
+    await addToIndex(redis, indexKey, 'owner/repo:main', 3000, 7200);
+    expect(fake.ttls.get(indexKey)).toBe(7200);
+  });
+
+  test('should never expire once a pinned entry is added', async () => {
+    await save('owner/repo:linux-npm-a', 1000);
+    await addToIndex(redis, indexKey, 'owner/repo:release', 2000, null);
+    expect(fake.ttls.has(indexKey)).toBe(false);
+
+    await save('owner/repo:linux-npm-b', 3000);
+    await refreshIndex(redis, indexKey, 3600);
+    expect(fake.ttls.has(indexKey)).toBe(false);
+  });
+});
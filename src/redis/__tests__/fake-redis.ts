@@ -0,0 +1,529 @@
+/**
+ * In-memory stand-in for the ioredis commands used by the redis module
+ *
+ * Shared by the redis tests so they all run against the same semantics: one
+ * keyspace of strings, hashes and sorted sets, with TTLs that only change when
+ * a command changes them (nothing expires on its own). Scripts passed to EVAL
+ * run for real in a Lua interpreter, with redis.call bound to this keyspace.
+ */
+
+import {Redis} from 'ioredis';
+import {LuaState, lauxlib, lua, lualib, to_luastring} from 'fengari';
+
+type Value =
+  | {type: 'string'; value: Buffer}
+  | {type: 'hash'; value: Map<string, string>}
+  | {type: 'zset'; value: Map<string, number>};
+
+type Reply = string | number | Buffer | null | Reply[];
+
+type Argument = string | number | Buffer;
+
+/**
+ * Parse a sorted set score bound such as 10, (10, -inf or +inf
+ */
+function parseBound(bound: Argument): {value: number; exclusive: boolean} {
+  const text = String(bound);
+  const exclusive = text.startsWith('(');
+  const value = exclusive ? text.slice(1) : text;
+  return {
+    value: value === '-inf' ? -Infinity : value === '+inf' ? Infinity : +value,
+    exclusive,
+  };
+}
+
+function inRange(score: number, min: Argument, max: Argument): boolean {
+  const low = parseBound(min);
+  const high = parseBound(max);
+  return (
+    (low.exclusive ? score > low.value : score >= low.value) &&
+    (high.exclusive ? score < high.value : score <= high.value)
+  );
+}
+
+/**
+ * Slice a list with Redis start/stop semantics (inclusive, negative from end)
+ */
+function sliceRange<T>(items: T[], start: number, stop: number): T[] {
+  const from = start < 0 ? Math.max(items.length + start, 0) : start;
+  const to = stop < 0 ? items.length + stop : stop;
+  return items.slice(from, to + 1);
+}
+
+export class FakeRedis {
+  isCluster = false;
+
+  /**
+   * Remaining TTL in seconds of every key that has one
+   */
+  readonly ttls = new Map<string, number>();
+
+  private readonly data = new Map<string, Value>();
+
+  /**
+   * The fake as the client type the code under test expects
+   * Every command resolves asynchronously like a real round trip.
+   */
+  get client(): Redis {
+    return new Proxy(this, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function') {
+          return value;
+        }
+        if (property === 'multi' || property === 'eval') {
+          return value.bind(target);
+        }
+        return async (...args: Argument[]) => value.apply(target, args);
+      },
+    }) as unknown as Redis;
+  }
+
+  /**
+   * Keys that currently exist, optionally only those starting with a prefix
+   */
+  keys(prefix = ''): string[] {
+    return [...this.data.keys()].filter(key => key.startsWith(prefix));
+  }
+
+  has(key: string): boolean {
+    return this.data.has(key);
+  }
+
+  private read<T extends Value['type']>(
+    key: string,
+    type: T
+  ): Extract<Value, {type: T}> | undefined {
+    const entry = this.data.get(key);
+    if (entry && entry.type !== type) {
+      throw new Error(
+        'WRONGTYPE Operation against a key holding the wrong kind of value'
+      );
+    }
+    return entry as Extract<Value, {type: T}> | undefined;
+  }
+
+  private hash(key: string): Map<string, string> {
+    const entry = this.read(key, 'hash');
+    if (entry) {
+      return entry.value;
+    }
+    const value = new Map<string, string>();
+    this.data.set(key, {type: 'hash', value});
+    return value;
+  }
+
+  private sortedSet(key: string): Map<string, number> {
+    const entry = this.read(key, 'zset');
+    if (entry) {
+      return entry.value;
+    }
+    const value = new Map<string, number>();
+    this.data.set(key, {type: 'zset', value});
+    return value;
+  }
+
+  // Empty hashes and sorted sets cease to exist, as in Redis
+  private dropIfEmpty(key: string): void {
+    const entry = this.data.get(key);
+    if (entry && entry.type !== 'string' && entry.value.size === 0) {
+      this.del(key);
+    }
+  }
+
+  private sortedMembers(key: string): string[] {
+    const set = this.read(key, 'zset')?.value || new Map<string, number>();
+    return [...set.entries()]
+      .sort((a, b) => a[1] - b[1] || (a[0] < b[0] ? -1 : 1))
+      .map(([member]) => member);
+  }
+
+  // Keys
+
+  type(key: string): string {
+    return this.data.get(key)?.type || 'none';
+  }
+
+  exists(...keys: string[]): number {
+    return keys.filter(key => this.data.has(key)).length;
+  }
+
+  del(...keys: string[]): number {
+    let deleted = 0;
+    for (const key of keys) {
+      this.ttls.delete(key);
+      if (this.data.delete(key)) {
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  expire(key: string, ttl: Argument): number {
+    if (!this.data.has(key)) {
+      return 0;
+    }
+    this.ttls.set(key, Number(ttl));
+    return 1;
+  }
+
+  ttl(key: string): number {
+    if (!this.data.has(key)) {
+      return -2;
+    }
+    return this.ttls.get(key) ?? -1;
+  }
+
+  persist(key: string): number {
+    return this.data.has(key) && this.ttls.delete(key) ? 1 : 0;
+  }
+
+  copy(source: string, destination: string, replace?: 'REPLACE'): number {
+    const entry = this.data.get(source);
+    if (!entry || (this.data.has(destination) && replace !== 'REPLACE')) {
+      return 0;
+    }
+    this.del(destination);
+    const value =
+      entry.type === 'string'
+        ? Buffer.from(entry.value)
+        : new Map<string, never>(entry.value as Map<string, never>);
+    this.data.set(destination, {type: entry.type, value} as Value);
+    const ttl = this.ttls.get(source);
+    if (ttl !== undefined) {
+      this.ttls.set(destination, ttl);
+    }
+    return 1;
+  }
+
+  /**
+   * Every matching key in a single iteration, supporting the * and ?
+   * wildcards of MATCH patterns
+   */
+  scan(_cursor: Argument, ...options: Argument[]): [string, string[]] {
+    const match = options.findIndex(
+      option => String(option).toUpperCase() === 'MATCH'
+    );
+    const pattern = match >= 0 ? String(options[match + 1]) : '*';
+    const source = pattern
+      .split('')
+      .map(char =>
+        char === '*'
+          ? '.*'
+          : char === '?'
+            ? '.'
+            : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      )
+      .join('');
+    const regex = new RegExp(`^${source}$`, 's');
+    return ['0', this.keys().filter(key => regex.test(key))];
+  }
+
+  quit(): 'OK' {
+    return 'OK';
+  }
+
+  // Strings
+
+  set(key: string, value: Argument, ...options: Argument[]): 'OK' | null {
+    const upper = options.map(option => String(option).toUpperCase());
+    if (upper.includes('NX') && this.data.has(key)) {
+      return null;
+    }
+    this.del(key);
+    this.data.set(key, {
+      type: 'string',
+      value: Buffer.isBuffer(value)
+        ? Buffer.from(value)
+        : Buffer.from(`${value}`),
+    });
+    const ex = upper.indexOf('EX');
+    if (ex >= 0) {
+      this.ttls.set(key, Number(options[ex + 1]));
+    }
+    return 'OK';
+  }
+
+  setex(key: string, ttl: Argument, value: Argument): 'OK' {
+    return this.set(key, value, 'EX', ttl) as 'OK';
+  }
+
+  getBuffer(key: string): Buffer | null {
+    return this.read(key, 'string')?.value || null;
+  }
+
+  get(key: string): string | null {
+    return this.getBuffer(key)?.toString() ?? null;
+  }
+
+  strlen(key: string): number {
+    return this.getBuffer(key)?.length || 0;
+  }
+
+  getrangeBuffer(key: string, start: Argument, end: Argument): Buffer {
+    const value = this.getBuffer(key) || Buffer.alloc(0);
+    return value.subarray(Number(start), Number(end) + 1);
+  }
+
+  // Hashes
+
+  hset(
+    key: string,
+    ...args: Array<Argument | Record<string, unknown>>
+  ): number {
+    const fields: Array<[string, string]> = [];
+    if (args.length === 1 && typeof args[0] === 'object') {
+      for (const [field, value] of Object.entries(args[0])) {
+        fields.push([field, String(value)]);
+      }
+    } else {
+      for (let i = 0; i < args.length; i += 2) {
+        fields.push([String(args[i]), String(args[i + 1])]);
+      }
+    }
+
+    const hash = this.hash(key);
+    let added = 0;
+    for (const [field, value] of fields) {
+      if (!hash.has(field)) {
+        added++;
+      }
+      hash.set(field, value);
+    }
+    return added;
+  }
+
+  hget(key: string, field: Argument): string | null {
+    return this.read(key, 'hash')?.value.get(String(field)) ?? null;
+  }
+
+  hgetall(key: string): Record<string, string> {
+    return Object.fromEntries(this.read(key, 'hash')?.value || []);
+  }
+
+  hdel(key: string, ...fields: Argument[]): number {
+    const hash = this.read(key, 'hash')?.value;
+    const deleted = fields.filter(field => hash?.delete(String(field))).length;
+    this.dropIfEmpty(key);
+    return deleted;
+  }
+
+  hincrby(key: string, field: Argument, increment: Argument): number {
+    const hash = this.hash(key);
+    const value = parseInt(hash.get(String(field)) || '0', 10) + +increment;
+    hash.set(String(field), String(value));
+    return value;
+  }
+
+  // Sorted sets
+
+  zadd(key: string, score: Argument, member: Argument): number {
+    const set = this.sortedSet(key);
+    const added = set.has(String(member)) ? 0 : 1;
+    set.set(String(member), Number(score));
+    return added;
+  }
+
+  zcard(key: string): number {
+    return this.read(key, 'zset')?.value.size || 0;
+  }
+
+  zscore(key: string, member: Argument): string | null {
+    const score = this.read(key, 'zset')?.value.get(String(member));
+    return score === undefined ? null : String(score);
+  }
+
+  zrange(key: string, start: Argument, stop: Argument): string[] {
+    return sliceRange(this.sortedMembers(key), +start, +stop);
+  }
+
+  zrevrange(key: string, start: Argument, stop: Argument): string[] {
+    return sliceRange(this.sortedMembers(key).reverse(), +start, +stop);
+  }
+
+  zrangebyscore(
+    key: string,
+    min: Argument,
+    max: Argument,
+    ...options: Argument[]
+  ): string[] {
+    const set = this.read(key, 'zset')?.value || new Map<string, number>();
+    const members = this.sortedMembers(key).filter(member =>
+      inRange(set.get(member) as number, min, max)
+    );
+    const limit = options.findIndex(o => String(o).toUpperCase() === 'LIMIT');
+    if (limit < 0) {
+      return members;
+    }
+    const offset = Number(options[limit + 1]);
+    const count = Number(options[limit + 2]);
+    return members.slice(offset, count < 0 ? undefined : offset + count);
+  }
+
+  zrem(key: string, ...members: Argument[]): number {
+    const set = this.read(key, 'zset')?.value;
+    const removed = members.filter(member => set?.delete(String(member)));
+    this.dropIfEmpty(key);
+    return removed.length;
+  }
+
+  zremrangebyscore(key: string, min: Argument, max: Argument): number {
+    const set = this.read(key, 'zset')?.value || new Map<string, number>();
+    const removed = [...set.entries()].filter(([, score]) =>
+      inRange(score, min, max)
+    );
+    removed.forEach(([member]) => set.delete(member));
+    this.dropIfEmpty(key);
+    return removed.length;
+  }
+
+  // Transactions and scripts
+
+  /**
+   * Queue commands and run them in order on exec
+   * Replies are [error, result] pairs, as ioredis returns them.
+   */
+  multi(): unknown {
+    const queued: Array<() => Reply> = [];
+    const transaction: unknown = new Proxy(
+      {},
+      {
+        get: (_target, property) => {
+          if (property === 'exec') {
+            return async () =>
+              queued.map(command => {
+                try {
+                  return [null, command()];
+                } catch (error) {
+                  return [error, null];
+                }
+              });
+          }
+          return (...args: Argument[]) => {
+            queued.push(() => this.call(String(property), args));
+            return transaction;
+          };
+        },
+      }
+    );
+    return transaction;
+  }
+
+  async eval(
+    script: string,
+    numKeys: Argument,
+    ...args: Argument[]
+  ): Promise<Reply> {
+    const L = lauxlib.luaL_newstate();
+    lualib.luaL_openlibs(L);
+
+    const pushTable = (name: string, values: Argument[]): void => {
+      lua.lua_createtable(L, values.length, 0);
+      values.forEach((value, i) => {
+        lua.lua_pushstring(L, to_luastring(String(value)));
+        lua.lua_rawseti(L, -2, i + 1);
+      });
+      lua.lua_setglobal(L, to_luastring(name));
+    };
+    pushTable('KEYS', args.slice(0, Number(numKeys)));
+    pushTable('ARGV', args.slice(Number(numKeys)));
+
+    lua.lua_createtable(L, 0, 1);
+    lua.lua_pushjsfunction(L, (state: LuaState) => {
+      const callArgs: string[] = [];
+      for (let i = 1; i <= lua.lua_gettop(state); i++) {
+        callArgs.push(lua.lua_tojsstring(state, i));
+      }
+      let reply: Reply;
+      try {
+        reply = this.call(callArgs[0], callArgs.slice(1));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return lauxlib.luaL_error(
+          state,
+          to_luastring('%s'),
+          to_luastring(message)
+        );
+      }
+      pushReply(state, reply);
+      return 1;
+    });
+    lua.lua_setfield(L, -2, to_luastring('call'));
+    lua.lua_setglobal(L, to_luastring('redis'));
+
+    if (
+      lauxlib.luaL_loadstring(L, to_luastring(script)) !== lua.LUA_OK ||
+      lua.lua_pcall(L, 0, 1, 0) !== lua.LUA_OK
+    ) {
+      throw new Error(`ERR Error running script: ${lua.lua_tojsstring(L, -1)}`);
+    }
+    return toReply(L, -1);
+  }
+
+  /**
+   * Run a command by name, as queued by MULTI or called from a script
+   */
+  private call(command: string, args: Argument[]): Reply {
+    const name = command.toLowerCase();
+    const method = (this as unknown as Record<string, unknown>)[name];
+    if (typeof method !== 'function' || name === 'call') {
+      throw new Error(`ERR unknown command '${command}'`);
+    }
+    return method.apply(this, args);
+  }
+}
+
+/**
+ * Convert a command reply to a Lua value, as Redis does for scripts
+ */
+function pushReply(L: LuaState, reply: Reply): void {
+  if (reply === null) {
+    lua.lua_pushboolean(L, false);
+  } else if (typeof reply === 'number') {
+    lua.lua_pushinteger(L, reply);
+  } else if (Array.isArray(reply)) {
+    lua.lua_createtable(L, reply.length, 0);
+    reply.forEach((item, i) => {
+      pushReply(L, item);
+      lua.lua_rawseti(L, -2, i + 1);
+    });
+  } else if (reply === 'OK') {
+    // Status replies are tables with an ok field
+    lua.lua_createtable(L, 0, 1);
+    lua.lua_pushstring(L, to_luastring('OK'));
+    lua.lua_setfield(L, -2, to_luastring('ok'));
+  } else {
+    lua.lua_pushstring(
+      L,
+      Buffer.isBuffer(reply) ? Uint8Array.from(reply) : to_luastring(reply)
+    );
+  }
+}
+
+/**
+ * Convert a script's return value to a reply, as Redis does
+ * Numbers are truncated to integers, false and nil become null, and tables
+ * become arrays up to their first nil
+ */
+function toReply(L: LuaState, index: number): Reply {
+  switch (lua.lua_type(L, index)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, index));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, index);
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, index) ? 1 : null;
+    case lua.LUA_TTABLE: {
+      const table = lua.lua_absindex(L, index);
+      const items: Reply[] = [];
+      for (let i = 1; lua.lua_rawgeti(L, table, i) !== lua.LUA_TNIL; i++) {
+        items.push(toReply(L, -1));
+        lua.lua_pop(L, 1);
+      }
+      lua.lua_pop(L, 1);
+      return items;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Typings for the parts of the fengari Lua interpreter used by the test fake
+ */
+
+declare module 'fengari' {
+  /**
+   * Opaque handle to a Lua state
+   */
+  export type LuaState = object;
+
+  export const lua: {
+    LUA_OK: number;
+    LUA_TNIL: number;
+    LUA_TBOOLEAN: number;
+    LUA_TNUMBER: number;
+    LUA_TSTRING: number;
+    LUA_TTABLE: number;
+    lua_absindex(L: LuaState, index: number): number;
+    lua_createtable(L: LuaState, narr: number, nrec: number): void;
+    lua_gettop(L: LuaState): number;
+    lua_pcall(
+      L: LuaState,
+      nargs: number,
+      nresults: number,
+      msgh: number
+    ): number;
+    lua_pop(L: LuaState, n: number): void;
+    lua_pushboolean(L: LuaState, value: boolean): void;
+    lua_pushinteger(L: LuaState, value: number): void;
+    lua_pushjsfunction(L: LuaState, fn: (L: LuaState) => number): void;
+    lua_pushstring(L: LuaState, value: Uint8Array): void;
+    lua_rawgeti(L: LuaState, index: number, n: number): number;
+    lua_rawseti(L: LuaState, index: number, n: number): void;
+    lua_setfield(L: LuaState, index: number, name: Uint8Array): void;
+    lua_setglobal(L: LuaState, name: Uint8Array): void;
+    lua_toboolean(L: LuaState, index: number): boolean;
+    lua_tojsstring(L: LuaState, index: number): string;
+    lua_tonumber(L: LuaState, index: number): number;
+    lua_type(L: LuaState, index: number): number;
+  };
+
+  export const lauxlib: {
+    luaL_error(L: LuaState, format: Uint8Array, ...args: Uint8Array[]): number;
+    luaL_loadstring(L: LuaState, source: Uint8Array): number;
+    luaL_newstate(): LuaState;
+  };
+
+  export const lualib: {
+    luaL_openlibs(L: LuaState): void;
+  };
+
+  export function to_luastring(value: string): Uint8Array;
+}
@@ -0,0 +1,56 @@
+/**
+ * Tests for content fingerprints of saved entries
+ */
+
+import {Redis} from 'ioredis';
+import {findEntryByFingerprint, recordFingerprint} from '../fingerprint';
+import {FakeRedis} from './fake-redis';
+
+describe('Fingerprint', () => {
+  const scope = 'owner/repo';
+  let fake: FakeRedis;
+  let redis: Redis;
+
+  beforeEach(() => {
+    fake = new FakeRedis();
+    redis = fake.client;
+  });
+
+  test('should find the entry recorded for a fingerprint', async () => {
+    fake.set('owner/repo:refs/heads/main:a', 'archive');
+    await recordFingerprint(
+      redis,
+      scope,
+      'abc',
+      'owner/repo:refs/heads/main:a',
+      60
+    );
+
+    expect(await findEntryByFingerprint(redis, scope, 'abc')).toBe(
+      'owner/repo:refs/heads/main:a'
+    );
+    expect(fake.ttls.get('fingerprint:owner/repo:abc')).toBe(60);
+    expect(await findEntryByFingerprint(redis, scope, 'def')).toBeNull();
+  });
+
+  test('should point at the most recent entry', async () => {
+    fake.set('owner/repo:a', 'archive');
+    fake.set('owner/repo:b', 'archive');
+    await recordFingerprint(redis, scope, 'abc', 'owner/repo:a', 60);
+    await recordFingerprint(redis, scope, 'abc', 'owner/repo:b', 60);
+
+    expect(await findEntryByFingerprint(redis, scope, 'abc')).toBe(
+      'owner/repo:b'
+    );
+  });
+
+  test('should not expire records of pinned entries', async () => {
+    await recordFingerprint(redis, scope, 'abc', 'owner/repo:a', null);
+    expect(fake.ttls.has('fingerprint:owner/repo:abc')).toBe(false);
+  });
+
+  test('should ignore records of entries that no longer exist', async () => {
+    await recordFingerprint(redis, scope, 'abc', 'owner/repo:a', 60);
+    expect(await findEntryByFingerprint(redis, scope, 'abc')).toBeNull();
+  });
+});
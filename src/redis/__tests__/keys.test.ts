@@ -0,0 +1,105 @@
+/**
+ * Tests for cache entry key layout
+ */
+
+import {
+  getEntryKeys,
+  getEntryPattern,
+  getFullKeyFromEntry,
+  getIndexKey,
+  getUsageKey,
+  getFingerprintKey,
+} from '../keys';
+
+describe('Entry keys', () => {
+  describe('getEntryKeys()', () => {
+    test('should use the full key as the entry key', () => {
+      const keys = getEntryKeys('owner/repo:linux-npm-abc');
+      expect(keys.entry).toBe('owner/repo:linux-npm-abc');
+      expect(keys.meta).toBe('meta:owner/repo:linux-npm-abc');
+      expect(keys.lock).toBe('lock:owner/repo:linux-npm-abc');
+      expect(keys.building).toBe('building:owner/repo:linux-npm-abc');
+      expect(keys.chunk('save1', 3)).toBe(
+        'chunk:owner/repo:linux-npm-abc:save1:3'
+      );
+    });
+
+    test('should prefix auxiliary keys so entry patterns never match them', () => {
+      const keys = getEntryKeys('owner/repo:linux-npm-abc');
+      const pattern = getEntryPattern('owner/repo:linux-npm-');
+      expect(keys.chunk('save1', 0).startsWith(pattern.slice(0, -1))).toBe(
+        false
+      );
+      expect(keys.meta.startsWith(pattern.slice(0, -1))).toBe(false);
+      expect(keys.lock.startsWith(pattern.slice(0, -1))).toBe(false);
+    });
+
+    test('should wrap every key in the same hash tag in cluster mode', () => {
+      const keys = getEntryKeys('owner/repo:linux-npm-abc', true);
+      expect(keys.entry).toBe('{owner/repo:linux-npm-abc}');
+      expect(keys.meta).toBe('meta:{owner/repo:linux-npm-abc}');
+      expect(keys.lock).toBe('lock:{owner/repo:linux-npm-abc}');
+      expect(keys.chunk('save1', 0)).toBe(
+        'chunk:{owner/repo:linux-npm-abc}:save1:0'
+      );
+    });
+  });
+
+  describe('getEntryPattern()', () => {
+    test('should append a wildcard to prefixes', () => {
+      expect(getEntryPattern('owner/repo:linux-')).toBe('owner/repo:linux-*');
+    });
+
+    test('should keep an explicit wildcard', () => {
+      expect(getEntryPattern('owner/repo:linux-*')).toBe('owner/repo:linux-*');
+    });
+
+    test('should include the opening hash tag brace in cluster mode', () => {
+      expect(getEntryPattern('owner/repo:linux-', true)).toBe(
+        '{owner/repo:linux-*'
+      );
+    });
+  });
+
+  describe('getFullKeyFromEntry()', () => {
+    test('should return standalone entry keys unchanged', () => {
+      expect(getFullKeyFromEntry('owner/repo:key')).toBe('owner/repo:key');
+    });
+
+    test('should strip the hash tag in cluster mode', () => {
+      const keys = getEntryKeys('owner/repo:key', true);
+      expect(getFullKeyFromEntry(keys.entry, true)).toBe('owner/repo:key');
+    });
+  });
+
+  describe('getIndexKey()', () => {
+    test('should prefix the scope so entry patterns never match it', () => {
+      expect(getIndexKey('owner/repo')).toBe('index:owner/repo');
+      expect(
+        getIndexKey('owner/repo').startsWith(getEntryPattern('owner/repo:'))
+      ).toBe(false);
+    });
+  });
+
+  describe('getFingerprintKey()', () => {
+    test('should prefix the scope so entry patterns never match it', () => {
+      expect(getFingerprintKey('owner/repo', 'abc')).toBe(
+        'fingerprint:owner/repo:abc'
+      );
+      expect(
+        getFingerprintKey('owner/repo', 'abc').startsWith(
+          getEntryPattern('owner/repo:')
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('getUsageKey()', () => {
+    test('should prefix the scope so entry patterns never match it', () => {
+      expect(getUsageKey('owner/repo')).toBe('usage:owner/repo');
+      expect(
+        getUsageKey('owner/repo').startsWith(getEntryPattern('owner/repo:'))
+      ).toBe(false);
+    });
+  });
+});
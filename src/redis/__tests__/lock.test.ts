@@ -0,0 +1,166 @@
+/**
+ * Tests for save coordination locks
+ */
+
+import {Redis} from 'ioredis';
+import {
+  PRODUCER_MARKER_TTL,
+  SaveLock,
+  getSaveLockHolder,
+  claimProducer,
+  getProducer,
+  keepProducerAlive,
+  releaseProducer,
+  waitForProducer,
+} from '../lock';
+import {FakeRedis} from './fake-redis';
+
+describe('SaveLock', () => {
+  let fake: FakeRedis;
+  let redis: Redis;
+
+  beforeEach(() => {
+    fake = new FakeRedis();
+    redis = fake.client;
+    process.env.GITHUB_RUN_ID = '1234';
+    process.env.GITHUB_JOB = 'build';
+  });
+
+  afterEach(() => {
+    delete process.env.GITHUB_RUN_ID;
+    delete process.env.GITHUB_JOB;
+    jest.useRealTimers();
+  });
+
+  test('should grant the lock to one job only', async () => {
+    const first = await SaveLock.acquire(redis, 'repo:key');
+    const second = await SaveLock.acquire(redis, 'repo:key');
+
+    expect(first).not.toBeNull();
+    expect(second).toBeNull();
+    expect(fake.has('lock:repo:key')).toBe(true);
+
+    await first!.release();
+  });
+
+  test('should describe the lock holder', async () => {
+    const lock = await SaveLock.acquire(redis, 'repo:key');
+
+    expect(await getSaveLockHolder(redis, 'repo:key')).toMatch(
+      /^run 1234, job build \([0-9a-f]+\)$/
+    );
+
+    await lock!.release();
+    expect(await getSaveLockHolder(redis, 'repo:key')).toBeNull();
+  });
+
+  test('should allow saving again once released', async () => {
+    const lock = await SaveLock.acquire(redis, 'repo:key');
+    await lock!.release();
+
+    const next = await SaveLock.acquire(redis, 'repo:key');
+    expect(next).not.toBeNull();
+    await next!.release();
+  });
+
+  test('should not release a lock taken over by another job', async () => {
+    const lock = await SaveLock.acquire(redis, 'repo:key');
+
+    // Lock expired and was taken by someone else
+    fake.set('lock:repo:key', 'other job');
+    await lock!.release();
+
+    expect(fake.get('lock:repo:key')).toBe('other job');
+  });
+
+  test('should keep the lock alive while held', async () => {
+    jest.useFakeTimers();
+    const lock = await SaveLock.acquire(redis, 'repo:key', 30);
+    fake.ttls.set('lock:repo:key', 1);
+
+    jest.advanceTimersByTime(10 * 1000);
+    await Promise.resolve();
+
+    expect(fake.ttls.get('lock:repo:key')).toBe(30);
+    await lock!.release();
+  });
+});
+
+describe('Producer markers', () => {
+  let fake: FakeRedis;
+  let redis: Redis;
+
+  beforeEach(() => {
+    fake = new FakeRedis();
+    redis = fake.client;
+  });
+
+  test('should let only one job claim a key', async () => {
+    const first = await claimProducer(redis, 'repo:key', 600);
+    const second = await claimProducer(redis, 'repo:key', 600);
+
+    expect(first).not.toBeNull();
+    expect(second).toBeNull();
+    expect(fake.ttls.get('building:repo:key')).toBe(600);
+    expect(await getProducer(redis, 'repo:key')).toBe(first);
+  });
+
+  test('should claim a short-lived marker by default', async () => {
+    await claimProducer(redis, 'repo:key');
+
+    expect(fake.ttls.get('building:repo:key')).toBe(PRODUCER_MARKER_TTL);
+  });
+
+  test('should keep the marker alive until it is released', async () => {
+    const token = await claimProducer(redis, 'repo:key', 3);
+    fake.ttls.set('building:repo:key', 1);
+    const heartbeat = keepProducerAlive(redis, 'repo:key', token!, 3);
+
+    await new Promise(resolve => setTimeout(resolve, 1500));
+    expect(fake.ttls.get('building:repo:key')).toBe(3);
+
+    await releaseProducer(redis, 'repo:key', token!);
+    await heartbeat;
+    expect(await getProducer(redis, 'repo:key')).toBeNull();
+  });
+
+  test('should only release a marker holding our token', async () => {
+    const token = await claimProducer(redis, 'repo:key', 600);
+
+    await releaseProducer(redis, 'repo:key', 'someone else');
+    expect(await getProducer(redis, 'repo:key')).toBe(token);
+
+    await releaseProducer(redis, 'repo:key', token!);
+    expect(await getProducer(redis, 'repo:key')).toBeNull();
+  });
+
+  test('should report ready once the entry is saved', async () => {
+    await claimProducer(redis, 'repo:key', 600);
+    setTimeout(() => fake.set('repo:key', 'manifest'), 20);
+
+    expect(await waitForProducer(redis, 'repo:key', 5, 0.01)).toBe('ready');
+  });
+
+  test('should report abandoned when the marker goes away', async () => {
+    const token = await claimProducer(redis, 'repo:key', 600);
+    setTimeout(() => releaseProducer(redis, 'repo:key', token!), 20);
+
+    expect(await waitForProducer(redis, 'repo:key', 5, 0.01)).toBe('abandoned');
+  });
+
+  test('should report ready when the producer saved and released', async () => {
+    const token = await claimProducer(redis, 'repo:key', 600);
+    fake.set('repo:key', 'manifest');
+    await releaseProducer(redis, 'repo:key', token!);
+
+    expect(await waitForProducer(redis, 'repo:key', 5, 0.01)).toBe('ready');
+  });
+
+  test('should give up when the wait budget runs out', async () => {
+    await claimProducer(redis, 'repo:key', 600);
+
+    expect(await waitForProducer(redis, 'repo:key', 0.05, 0.01)).toBe(
+      'timeout'
+    );
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for cache key scoping
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  encodeKeySegment,
+  getCacheKey,
+  getCacheKeyPrefix,
+  getCacheRef,
+  getCacheScope,
+  getRestoreRefs,
+} from '../operations';
+
+describe('Cache key scoping', () => {
+  const env = {...process.env};
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'operations-test-'));
+    process.env.GITHUB_REPOSITORY = 'owner/repo';
+    process.env.GITHUB_REPOSITORY_OWNER = 'owner';
+    process.env.GITHUB_SERVER_URL = 'https://github.example.com';
+    process.env.GITHUB_REF = 'refs/heads/feature';
+    delete process.env.GITHUB_BASE_REF;
+    delete process.env.GITHUB_EVENT_PATH;
+  });
+
+  afterEach(() => {
+    process.env = {...env};
+    fs.rmSync(testDir, {recursive: true, force: true});
+  });
+
+  function writeEvent(event: unknown): void {
+    const eventPath = path.join(testDir, 'event.json');
+    fs.writeFileSync(eventPath, JSON.stringify(event));
+    process.env.GITHUB_EVENT_PATH = eventPath;
+  }
+
+  describe('getCacheKey()', () => {
+    test('should scope keys to the repository and current ref', () => {
+      expect(getCacheKey('linux-npm-abc')).toBe(
+        'owner/repo:refs/heads/feature:linux-npm-abc'
+      );
+    });
+
+    test('should scope keys to a given scope and ref', () => {
+      expect(getCacheKey('linux-npm-abc', 'global', 'refs/heads/main')).toBe(
+        'global:refs/heads/main:linux-npm-abc'
+      );
+    });
+
+    test('should build unscoped keys for an empty ref', () => {
+      expect(getCacheKey('linux-npm-abc', 'owner/repo', '')).toBe(
+        'owner/repo:linux-npm-abc'
+      );
+    });
+
+    test('should keep the prefix sliceable whatever the key contains', () => {
+      const prefix = getCacheKeyPrefix('owner/repo', 'refs/pull/7/merge');
+      const fullKey = getCacheKey(
+        'node:18:{lock}',
+        'owner/repo',
+        'refs/pull/7/merge'
+      );
+      expect(fullKey.startsWith(prefix)).toBe(true);
+      expect(fullKey.slice(prefix.length)).toBe('node:18:{lock}');
+    });
+
+    test('should encode unusual characters in refs', () => {
+      expect(getCacheKeyPrefix('owner/repo', 'refs/heads/a{b}*')).toBe(
+        'owner/repo:refs/heads/a%7Bb%7D%2A:'
+      );
+    });
+  });
+
+  describe('getCacheScope()', () => {
+    test('should default to the repository', () => {
+      expect(getCacheScope()).toBe('owner/repo');
+    });
+
+    test('should render template variables', () => {
+      expect(getCacheScope('{server}/{owner}')).toBe(
+        'github.example.com/owner'
+      );
+      expect(getCacheScope('{repo}')).toBe('owner/repo');
+      expect(getCacheScope('global')).toBe('global');
+    });
+
+    test('should encode separators in the rendered scope', () => {
+      expect(getCacheScope('team:{owner}')).toBe('team%3Aowner');
+    });
+
+    test('should reject unknown variables and empty scopes', () => {
+      expect(() => getCacheScope('{org}')).toThrow(
+        'Invalid scope "{org}": unknown variable {org}'
+      );
+      expect(() => getCacheScope('  ')).toThrow('scope must not be empty');
+    });
+
+    test('should fall back to github.com without a server URL', () => {
+      delete process.env.GITHUB_SERVER_URL;
+      expect(getCacheScope('{server}')).toBe('github.com');
+    });
+  });
+
+  describe('encodeKeySegment()', () => {
+    test('should keep readable segments unchanged', () => {
+      expect(encodeKeySegment('owner/repo-1.x_y')).toBe('owner/repo-1.x_y');
+    });
+
+    test('should encode separators, hash tags and wildcards', () => {
+      expect(encodeKeySegment('a:b{c}*?[d]')).toBe('a%3Ab%7Bc%7D%2A%3F%5Bd%5D');
+    });
+  });
+
+  describe('getCacheRef()', () => {
+    test('should fall back to a local ref outside of Actions', () => {
+      delete process.env.GITHUB_REF;
+      expect(getCacheRef()).toBe('local');
+    });
+  });
+
+  describe('getRestoreRefs()', () => {
+    test('should search only the current ref without more context', () => {
+      expect(getRestoreRefs()).toEqual(['refs/heads/feature']);
+    });
+
+    test('should search the base ref of a pull request', () => {
+      process.env.GITHUB_REF = 'refs/pull/7/merge';
+      process.env.GITHUB_BASE_REF = 'develop';
+      writeEvent({repository: {default_branch: 'main'}});
+
+      expect(getRestoreRefs()).toEqual([
+        'refs/pull/7/merge',
+        'refs/heads/develop',
+        'refs/heads/main',
+      ]);
+    });
+
+    test('should not repeat refs', () => {
+      process.env.GITHUB_REF = 'refs/pull/7/merge';
+      process.env.GITHUB_BASE_REF = 'main';
+      writeEvent({repository: {default_branch: 'main'}});
+
+      expect(getRestoreRefs()).toEqual([
+        'refs/pull/7/merge',
+        'refs/heads/main',
+      ]);
+    });
+
+    test('should ignore an unreadable event payload', () => {
+      process.env.GITHUB_EVENT_PATH = path.join(testDir, 'missing.json');
+      expect(getRestoreRefs()).toEqual(['refs/heads/feature']);
+    });
+  });
+});
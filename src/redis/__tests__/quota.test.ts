@@ -0,0 +1,139 @@
+/**
+ * Tests for per-scope storage accounting and quotas
+ */
+
+import {Redis} from 'ioredis';
+import {enforceQuota, getUsage, recordUsage} from '../quota';
+import {FakeRedis} from './fake-redis';
+
+describe('Quota', () => {
+  const scope = 'owner/repo';
+  const usageKey = 'usage:owner/repo';
+  const indexKey = 'index:owner/repo';
+  let fake: FakeRedis;
+  let redis: Redis;
+
+  async function save(
+    fullKey: string,
+    bytes: number,
+    savedAt: number,
+    ttl: number | null = 60
+  ): Promise<void> {
+    fake.set(fullKey, 'archive');
+    if (ttl !== null) {
+      fake.expire(fullKey, ttl);
+    }
+    fake.zadd(indexKey, savedAt, fullKey);
+    await recordUsage(redis, scope, fullKey, bytes, ttl);
+  }
+
+  beforeEach(() => {
+    fake = new FakeRedis();
+    redis = fake.client;
+  });
+
+  describe('recordUsage()', () => {
+    test('should keep a running total per scope', async () => {
+      expect(await getUsage(redis, scope)).toBe(0);
+
+      await save('owner/repo:a', 100, 1);
+      await save('owner/repo:b', 50, 2);
+      expect(await getUsage(redis, scope)).toBe(150);
+
+      // Saving an entry again replaces its size
+      expect(await recordUsage(redis, scope, 'owner/repo:a', 30)).toBe(80);
+      expect(await recordUsage(redis, scope, 'owner/repo:b', 0)).toBe(30);
+      expect(fake.hget(usageKey, 'owner/repo:b')).toBeNull();
+    });
+
+    test('should update the usage in a single script', async () => {
+      const script = jest.spyOn(fake, 'eval');
+      const write = jest.spyOn(fake, 'hset');
+
+      await save('owner/repo:a', 100, 1);
+      await save('owner/repo:a', 40, 2);
+
+      expect(script).toHaveBeenCalledTimes(2);
+      expect(write).toHaveBeenCalledTimes(2);
+      expect(fake.hgetall(usageKey)).toEqual({
+        'owner/repo:a': '40',
+        total: '40',
+      });
+    });
+
+    test('should expire the usage with the longest-lived entry', async () => {
+      await save('owner/repo:a', 100, 1, 60);
+      expect(fake.ttls.get(usageKey)).toBe(60);
+
+      await save('owner/repo:b', 100, 2, 600);
+      expect(fake.ttls.get(usageKey)).toBe(600);
+
+      await save('owner/repo:c', 100, 3, 60);
+      expect(fake.ttls.get(usageKey)).toBe(600);
+    });
+
+    test('should never expire the usage of pinned entries', async () => {
+      await save('owner/repo:a', 100, 1, 60);
+      await save('owner/repo:b', 100, 2, null);
+      expect(fake.ttls.has(usageKey)).toBe(false);
+
+      await save('owner/repo:c', 100, 3, 60);
+      expect(fake.ttls.has(usageKey)).toBe(false);
+    });
+  });
+
+  describe('enforceQuota()', () => {
+    test('should do nothing within the quota', async () => {
+      await save('owner/repo:a', 100, 1);
+
+      expect(await enforceQuota(redis, scope, 100)).toEqual({
+        evicted: [],
+        freedBytes: 0,
+        usage: 100,
+      });
+      expect(fake.has('owner/repo:a')).toBe(true);
+    });
+
+    test('should evict the oldest entries first', async () => {
+      await save('owner/repo:b', 100, 2);
+      await save('owner/repo:a', 100, 1);
+      await save('owner/repo:c', 100, 3);
+
+      const result = await enforceQuota(redis, scope, 150);
+
+      expect(result).toEqual({
+        evicted: ['owner/repo:a', 'owner/repo:b'],
+        freedBytes: 200,
+        usage: 100,
+      });
+      expect(fake.has('owner/repo:a')).toBe(false);
+      expect(fake.has('owner/repo:b')).toBe(false);
+      expect(fake.has('owner/repo:c')).toBe(true);
+      expect(await redis.zrange(indexKey, 0, -1)).toEqual(['owner/repo:c']);
+    });
+
+    test('should never evict the kept entry or pinned entries', async () => {
+      await save('owner/repo:pinned', 100, 1, null);
+      await save('owner/repo:old', 100, 2);
+      await save('owner/repo:new', 100, 3);
+
+      const result = await enforceQuota(redis, scope, 50, 'owner/repo:new');
+
+      expect(result.evicted).toEqual(['owner/repo:old']);
+      expect(result.usage).toBe(200);
+      expect(fake.has('owner/repo:pinned')).toBe(true);
+      expect(fake.has('owner/repo:new')).toBe(true);
+    });
+
+    test('should drop expired entries from the usage', async () => {
+      await save('owner/repo:a', 100, 1);
+      await save('owner/repo:b', 100, 2);
+      fake.del('owner/repo:a');
+
+      const result = await enforceQuota(redis, scope, 100);
+
+      expect(result).toEqual({evicted: [], freedBytes: 100, usage: 100});
+      expect(fake.has('owner/repo:b')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,723 @@
+/**
+ * Tests for chunked cache entry storage
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import {Readable} from 'stream';
+import {pipeline} from 'stream/promises';
+import {Redis} from 'ioredis';
+import {
+  EntryWriteStream,
+  consumeEntry,
+  copyEntry,
+  deleteEntry,
+  downloadEntry,
+  entryExists,
+  readEntry,
+  readEntryHeader,
+  readManifest,
+  openEntry,
+  readMetadata,
+  persistEntry,
+  refreshEntry,
+  writeEntry,
+  writeMetadata,
+} from '../storage';
+import {CacheMetadata} from '../types';
+import {FakeRedis} from './fake-redis';
+
+describe('Chunked storage', () => {
+  let fake: FakeRedis;
+  let redis: Redis;
+  let testDir: string;
+
+  beforeEach(() => {
+    fake = new FakeRedis();
+    redis = fake.client;
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, {recursive: true, force: true});
+  });
+
+  describe('EntryWriteStream', () => {
+    test('should split data into chunk keys behind a manifest', async () => {
+      const data = crypto.randomBytes(10 * 1024);
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 4096,
+      });
+
+      await pipeline(Readable.from([data]), writer);
+
+      expect(writer.manifest).not.toBeNull();
+      expect(writer.manifest?.size).toBe(data.length);
+      expect(writer.manifest?.chunkCount).toBe(3);
+      expect(fake.keys('chunk:')).toHaveLength(3);
+      expect(await entryExists(redis, 'repo:key')).toBe(true);
+    });
+
+    test('should abort and remove chunks when exceeding max size', async () => {
+      const data = crypto.randomBytes(10 * 1024);
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 1024,
+        maxSize: 4096,
+      });
+
+      await expect(
+        pipeline(
+          Readable.from([data.subarray(0, 3000), data.subarray(3000)]),
+          writer
+        )
+      ).rejects.toThrow('exceeds configured maximum');
+      await writer.abort();
+
+      expect(writer.manifest).toBeNull();
+      expect(fake.keys('chunk:')).toHaveLength(0);
+      expect(await entryExists(redis, 'repo:key')).toBe(false);
+    });
+
+    test('should remove uploaded chunks when aborted', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 1024,
+      });
+
+      await new Promise<void>(resolve =>
+        writer.write(crypto.randomBytes(4096), () => resolve())
+      );
+      expect(fake.keys('chunk:').length).toBeGreaterThan(0);
+
+      await writer.abort();
+
+      expect(fake.keys('chunk:')).toHaveLength(0);
+      expect(await entryExists(redis, 'repo:key')).toBe(false);
+    });
+
+    test('should replace an existing entry and drop its chunks', async () => {
+      const first = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 1024,
+      });
+      await pipeline(Readable.from([crypto.randomBytes(4096)]), first);
+
+      const second = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 1024,
+      });
+      await pipeline(Readable.from([crypto.randomBytes(2048)]), second);
+
+      const manifest = await readManifest(redis, 'repo:key');
+      expect(manifest?.saveId).toBe(second.manifest?.saveId);
+      expect(fake.keys('chunk:')).toHaveLength(2);
+    });
+  });
+
+  describe('EntryWriteStream with chunk deduplication', () => {
+    const collect = async (stream: Readable): Promise<Buffer> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      return Buffer.concat(chunks);
+    };
+
+    const save = async (fullKey: string, data: Buffer) => {
+      const writer = new EntryWriteStream(redis, fullKey, 60, {
+        dedupScope: 'owner/repo',
+      });
+      await pipeline(Readable.from([data]), writer);
+      return writer;
+    };
+
+    test('should store chunks under their hash behind a manifest', async () => {
+      const data = crypto.randomBytes(3 * 1024 * 1024);
+      const writer = await save('repo:a', data);
+
+      expect(writer.manifest?.layout).toBe('content');
+      expect(writer.manifest?.chunkHashes).toHaveLength(
+        writer.manifest!.chunkCount
+      );
+      expect(fake.keys('cas:')).toHaveLength(writer.manifest!.chunkCount);
+      expect(fake.keys('chunk:')).toHaveLength(0);
+      expect(writer.bytesUploaded).toBe(data.length);
+
+      const manifest = await readManifest(redis, 'repo:a');
+      expect(manifest).toEqual(writer.manifest);
+    });
+
+    test('should only upload chunks that are not stored yet', async () => {
+      const data = crypto.randomBytes(8 * 1024 * 1024);
+      const first = await save('repo:a', data);
+
+      // Same archive with a change near the end
+      const edited = Buffer.concat([
+        data.subarray(0, 7 * 1024 * 1024),
+        Buffer.from('changed'),
+        data.subarray(7 * 1024 * 1024),
+      ]);
+      const second = await save('repo:b', edited);
+
+      expect(second.reusedChunks).toBeGreaterThan(0);
+      expect(second.bytesUploaded).toBeLessThan(edited.length / 2);
+      expect(fake.keys('cas:').length).toBeLessThan(
+        first.manifest!.chunkCount + second.manifest!.chunkCount
+      );
+
+      const entry = await openEntry(redis, 'repo:b');
+      expect((await collect(entry!.stream)).equals(edited)).toBe(true);
+    });
+
+    test('should keep shared chunks when an entry is replaced', async () => {
+      const data = crypto.randomBytes(2 * 1024 * 1024);
+      await save('repo:a', data);
+      await save('repo:b', data);
+      await save('repo:a', crypto.randomBytes(1024));
+
+      const entry = await openEntry(redis, 'repo:b');
+      expect((await collect(entry!.stream)).equals(data)).toBe(true);
+    });
+
+    test('should keep shared chunks when a save is aborted', async () => {
+      const data = crypto.randomBytes(2 * 1024 * 1024);
+      await save('repo:a', data);
+      const stored = fake.keys('cas:').length;
+
+      const writer = new EntryWriteStream(redis, 'repo:b', 60, {
+        dedupScope: 'owner/repo',
+      });
+      await new Promise<void>(resolve => writer.write(data, () => resolve()));
+      await writer.abort();
+
+      expect(fake.keys('cas:').length).toBeGreaterThanOrEqual(stored);
+      expect(await entryExists(redis, 'repo:b')).toBe(false);
+      expect(await openEntry(redis, 'repo:a')).not.toBeNull();
+    });
+
+    test('should treat an entry with an evicted shared chunk as a miss', async () => {
+      await save('repo:a', crypto.randomBytes(2 * 1024 * 1024));
+      fake.del(fake.keys('cas:')[0]);
+
+      expect(await openEntry(redis, 'repo:a')).toBeNull();
+    });
+  });
+
+  describe('writeEntry() and readEntry()', () => {
+    test('should round-trip an archive file', async () => {
+      const data = crypto.randomBytes(50 * 1024 + 17);
+      const archivePath = path.join(testDir, 'archive.tar.gz');
+      const outputPath = path.join(testDir, 'restored.tar.gz');
+      fs.writeFileSync(archivePath, data);
+
+      const manifest = await writeEntry(redis, 'repo:key', archivePath, 60, {
+        chunkSize: 8192,
+      });
+      expect(manifest.chunkCount).toBe(7);
+
+      const size = await readEntry(redis, 'repo:key', outputPath);
+      expect(size).toBe(data.length);
+      expect(fs.readFileSync(outputPath).equals(data)).toBe(true);
+    });
+
+    test('should read legacy single-key entries', async () => {
+      const data = crypto.randomBytes(1024);
+      const outputPath = path.join(testDir, 'restored.tar.gz');
+      await fake.setex('repo:legacy', 60, data);
+
+      const size = await readEntry(redis, 'repo:legacy', outputPath);
+      expect(size).toBe(data.length);
+      expect(fs.readFileSync(outputPath).equals(data)).toBe(true);
+    });
+
+    test('should treat a missing chunk as a miss', async () => {
+      const archivePath = path.join(testDir, 'archive.tar.gz');
+      fs.writeFileSync(archivePath, crypto.randomBytes(4096));
+      await writeEntry(redis, 'repo:key', archivePath, 60, {chunkSize: 1024});
+
+      await fake.del(fake.keys('chunk:')[2]);
+
+      const size = await readEntry(
+        redis,
+        'repo:key',
+        path.join(testDir, 'restored.tar.gz')
+      );
+      expect(size).toBeNull();
+    });
+
+    test('should return null for a missing entry', async () => {
+      const size = await readEntry(
+        redis,
+        'repo:missing',
+        path.join(testDir, 'restored.tar.gz')
+      );
+      expect(size).toBeNull();
+    });
+  });
+
+  describe('writeMetadata() and readMetadata()', () => {
+    const metadata: CacheMetadata = {
+      key: 'linux-npm-abc',
+      format: 'tar+gzip',
+      compressionLevel: 6,
+      archiveSize: 1024,
+      uncompressedSize: 4096,
+      fileCount: 2,
+      paths: ['node_modules', '~/.npm'],
+      createdAt: '2025-01-14T09:31:02.118Z',
+      commitSha: '4f2c1e9b',
+      ref: 'refs/heads/main',
+      workflow: 'CI',
+      runId: '12873401',
+      runnerOs: 'Linux',
+      fingerprint: 'e3b0c442',
+    };
+
+    test('should round-trip a metadata record', async () => {
+      await writeMetadata(redis, 'repo:key', metadata, 60);
+
+      expect(fake.has('meta:repo:key')).toBe(true);
+      expect(await readMetadata(redis, 'repo:key')).toEqual(metadata);
+    });
+
+    test('should return null for entries without metadata', async () => {
+      expect(await readMetadata(redis, 'repo:key')).toBeNull();
+    });
+
+    test('should drop metadata when the entry is replaced', async () => {
+      await writeMetadata(redis, 'repo:key', metadata, 60);
+
+      const writer = new EntryWriteStream(redis, 'repo:key', 60);
+      await pipeline(Readable.from([Buffer.from('new archive')]), writer);
+
+      expect(await readMetadata(redis, 'repo:key')).toBeNull();
+    });
+  });
+
+  describe('integrity checksums', () => {
+    test('should record the SHA-256 of the archive in the manifest', async () => {
+      const data = crypto.randomBytes(10 * 1024);
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 4096,
+      });
+      await pipeline(Readable.from([data]), writer);
+
+      const expected = crypto.createHash('sha256').update(data).digest('hex');
+      expect(writer.manifest?.sha256).toBe(expected);
+      expect((await readManifest(redis, 'repo:key'))?.sha256).toBe(expected);
+      expect((await openEntry(redis, 'repo:key'))?.sha256).toBe(expected);
+    });
+
+    test('should hash the bytes downloaded from Redis', async () => {
+      const data = crypto.randomBytes(10 * 1024);
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 4096,
+      });
+      await pipeline(Readable.from([data]), writer);
+
+      // Corrupt one chunk in place
+      const chunkKey = fake.keys('chunk:')[1];
+      const chunk = Buffer.from(fake.getBuffer(chunkKey)!);
+      chunk[0] ^= 0xff;
+      fake.set(chunkKey, chunk);
+
+      const entry = await openEntry(redis, 'repo:key');
+      const outputFile = path.join(testDir, 'download.bin');
+      const sha256 = await downloadEntry(entry!, outputFile);
+
+      expect(sha256).not.toBe(entry!.sha256);
+      expect(sha256).toBe(
+        crypto
+          .createHash('sha256')
+          .update(fs.readFileSync(outputFile))
+          .digest('hex')
+      );
+    });
+
+    test('should not record a checksum for legacy entries', async () => {
+      await fake.setex('repo:legacy', 60, Buffer.from('legacy archive'));
+      expect((await openEntry(redis, 'repo:legacy'))?.sha256).toBeUndefined();
+    });
+  });
+
+  describe('copyEntry()', () => {
+    async function writeSource(
+      data: Buffer,
+      options: {chunkSize?: number; dedupScope?: string} = {chunkSize: 4096}
+    ): Promise<void> {
+      const source = new EntryWriteStream(redis, 'repo:a', 60, options);
+      await pipeline(Readable.from([data]), source);
+    }
+
+    async function readCopy(): Promise<Buffer> {
+      const outputFile = path.join(testDir, 'copy.archive');
+      await readEntry(redis, 'repo:b', outputFile);
+      return fs.readFileSync(outputFile);
+    }
+
+    test('should copy chunks inside Redis without downloading them', async () => {
+      const data = crypto.randomBytes(10 * 1024);
+      await writeSource(data);
+      const download = jest.spyOn(fake, 'getBuffer');
+
+      const writer = new EntryWriteStream(redis, 'repo:b', 3600, {
+        chunkSize: 4096,
+      });
+      expect(await copyEntry(redis, 'repo:a', writer)).toBe(true);
+
+      expect(download).not.toHaveBeenCalled();
+      expect(writer.bytesUploaded).toBe(0);
+      expect(writer.manifest?.sha256).toBe(
+        (await readManifest(redis, 'repo:a'))?.sha256
+      );
+      const copied = fake.keys('chunk:repo:b:');
+      expect(copied).toHaveLength(3);
+      copied.forEach(key => expect(fake.ttls.get(key)).toBe(3600));
+      expect((await readCopy()).equals(data)).toBe(true);
+    });
+
+    test('should list the shared chunks of a deduplicated entry', async () => {
+      const data = crypto.randomBytes(64 * 1024);
+      await writeSource(data, {dedupScope: 'repo'});
+      const shared = fake.keys('cas:');
+      const download = jest.spyOn(fake, 'getBuffer');
+
+      const writer = new EntryWriteStream(redis, 'repo:b', 3600);
+      expect(await copyEntry(redis, 'repo:a', writer)).toBe(true);
+
+      expect(download).not.toHaveBeenCalled();
+      expect(fake.keys('cas:')).toEqual(shared);
+      expect(fake.keys('chunk:')).toHaveLength(0);
+      shared.forEach(key => expect(fake.ttls.get(key)).toBe(3600));
+      expect((await readManifest(redis, 'repo:b'))?.chunkHashes).toEqual(
+        (await readManifest(redis, 'repo:a'))?.chunkHashes
+      );
+      expect((await readCopy()).equals(data)).toBe(true);
+    });
+
+    test('should stream the archive without COPY support', async () => {
+      const data = crypto.randomBytes(10 * 1024);
+      await writeSource(data);
+      jest.spyOn(fake, 'copy').mockImplementation(() => {
+        throw new Error("ERR unknown command 'copy'");
+      });
+
+      const writer = new EntryWriteStream(redis, 'repo:b', 60, {
+        chunkSize: 4096,
+      });
+      expect(await copyEntry(redis, 'repo:a', writer)).toBe(true);
+
+      expect(writer.bytesUploaded).toBe(data.length);
+      expect((await readCopy()).equals(data)).toBe(true);
+    });
+
+    test('should stream the archive between cluster slots', async () => {
+      fake.isCluster = true;
+      const data = crypto.randomBytes(10 * 1024);
+      await writeSource(data);
+      const copy = jest.spyOn(fake, 'copy');
+
+      const writer = new EntryWriteStream(redis, 'repo:b', 60, {
+        chunkSize: 4096,
+      });
+      expect(await copyEntry(redis, 'repo:a', writer)).toBe(true);
+
+      expect(copy).not.toHaveBeenCalled();
+      expect((await readCopy()).equals(data)).toBe(true);
+    });
+
+    test('should leave the writer untouched for a missing entry', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:b', 60);
+
+      expect(await copyEntry(redis, 'repo:missing', writer)).toBe(false);
+      expect(writer.writableEnded).toBe(false);
+      await writer.abort();
+    });
+
+    test('should leave the writer untouched for an incomplete entry', async () => {
+      await writeSource(crypto.randomBytes(10 * 1024));
+      fake.del(fake.keys('chunk:repo:a:')[1]);
+
+      const writer = new EntryWriteStream(redis, 'repo:b', 60);
+      expect(await copyEntry(redis, 'repo:a', writer)).toBe(false);
+      expect(fake.keys('chunk:repo:b')).toEqual([]);
+      await writer.abort();
+    });
+
+    test('should refuse to stream a corrupt entry', async () => {
+      fake.isCluster = true;
+      await writeSource(crypto.randomBytes(4096), {chunkSize: 1024});
+      const chunk = fake.keys('chunk:')[0];
+      fake.set(chunk, crypto.randomBytes(1024));
+
+      const writer = new EntryWriteStream(redis, 'repo:b', 60, {
+        chunkSize: 1024,
+      });
+      await expect(copyEntry(redis, 'repo:a', writer)).rejects.toThrow(
+        'Cache entry repo:a failed its integrity check'
+      );
+      expect(await entryExists(redis, 'repo:b')).toBe(false);
+      expect(fake.keys('chunk:{repo:b}')).toEqual([]);
+    });
+  });
+
+  describe('deleteEntry()', () => {
+    test('should remove the manifest, metadata and chunks', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 1024,
+      });
+      await pipeline(Readable.from([crypto.randomBytes(4096)]), writer);
+      fake.hset('meta:repo:key', {createdAt: 'now'});
+
+      await deleteEntry(redis, 'repo:key');
+
+      expect(await entryExists(redis, 'repo:key')).toBe(false);
+      expect(fake.has('meta:repo:key')).toBe(false);
+      expect(fake.keys('chunk:')).toHaveLength(0);
+    });
+  });
+
+  describe('refreshEntry()', () => {
+    test('should extend the manifest, metadata and chunks', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 1024,
+      });
+      await pipeline(Readable.from([crypto.randomBytes(4096)]), writer);
+      fake.hset('meta:repo:key', {createdAt: 'now'});
+
+      expect(await refreshEntry(redis, 'repo:key', 3600, 'repo')).toBe(true);
+
+      expect(fake.ttls.get('repo:key')).toBe(3600);
+      expect(fake.ttls.get('meta:repo:key')).toBe(3600);
+      expect(fake.keys('chunk:')).toHaveLength(4);
+      fake.keys('chunk:').forEach(key => expect(fake.ttls.get(key)).toBe(3600));
+    });
+
+    test('should extend shared chunks of deduplicated entries', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        dedupScope: 'owner/repo',
+      });
+      await pipeline(
+        Readable.from([crypto.randomBytes(2 * 1024 * 1024)]),
+        writer
+      );
+
+      expect(await refreshEntry(redis, 'repo:key', 3600, 'repo')).toBe(true);
+
+      expect(fake.keys('cas:').length).toBeGreaterThan(0);
+      fake.keys('cas:').forEach(key => expect(fake.ttls.get(key)).toBe(3600));
+    });
+
+    test('should extend the fingerprint record of the entry', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60);
+      await pipeline(Readable.from([Buffer.from('archive')]), writer);
+      fake.hset('meta:repo:key', {createdAt: 'now', fingerprint: 'abc'});
+      fake.set('fingerprint:repo:abc', 'repo:key', 'EX', 60);
+
+      expect(await refreshEntry(redis, 'repo:key', 3600, 'repo')).toBe(true);
+      expect(fake.ttls.get('fingerprint:repo:abc')).toBe(3600);
+    });
+
+    test('should leave a fingerprint recorded for a newer entry', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60);
+      await pipeline(Readable.from([Buffer.from('archive')]), writer);
+      fake.hset('meta:repo:key', {createdAt: 'now', fingerprint: 'abc'});
+      fake.set('fingerprint:repo:abc', 'repo:newer', 'EX', 60);
+
+      expect(await refreshEntry(redis, 'repo:key', 3600, 'repo')).toBe(true);
+      expect(fake.ttls.get('fingerprint:repo:abc')).toBe(60);
+    });
+
+    test('should extend legacy single-value entries', async () => {
+      fake.set('repo:legacy', Buffer.from('archive'));
+      fake.ttls.set('repo:legacy', 60);
+
+      expect(await refreshEntry(redis, 'repo:legacy', 3600, 'repo')).toBe(true);
+      expect(fake.ttls.get('repo:legacy')).toBe(3600);
+    });
+
+    test('should report entries that no longer exist', async () => {
+      expect(await refreshEntry(redis, 'repo:missing', 3600, 'repo')).toBe(
+        false
+      );
+      expect(fake.ttls.has('meta:repo:missing')).toBe(false);
+    });
+
+    test('should never shorten a longer expiry', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 7200);
+      await pipeline(Readable.from([Buffer.from('archive')]), writer);
+
+      expect(await refreshEntry(redis, 'repo:key', 3600, 'repo')).toBe(true);
+      expect(fake.ttls.get('repo:key')).toBe(7200);
+    });
+
+    test('should leave pinned entries without expiry', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60);
+      await pipeline(Readable.from([Buffer.from('archive')]), writer);
+      await persistEntry(redis, 'repo:key');
+
+      expect(await refreshEntry(redis, 'repo:key', 3600, 'repo')).toBe(true);
+      expect(fake.ttls.has('repo:key')).toBe(false);
+    });
+  });
+
+  describe('persistEntry()', () => {
+    test('should remove the expiry of the manifest, metadata and chunks', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 1024,
+      });
+      await pipeline(Readable.from([crypto.randomBytes(4096)]), writer);
+      fake.hset('meta:repo:key', {createdAt: 'now'});
+      fake.ttls.set('meta:repo:key', 60);
+
+      await persistEntry(redis, 'repo:key');
+
+      expect(fake.ttls.has('repo:key')).toBe(false);
+      expect(fake.ttls.has('meta:repo:key')).toBe(false);
+      fake
+        .keys('chunk:')
+        .forEach(key => expect(fake.ttls.has(key)).toBe(false));
+    });
+
+    test('should keep shared chunks pinned when other entries reuse them', async () => {
+      const data = crypto.randomBytes(2 * 1024 * 1024);
+      const pinnedWriter = new EntryWriteStream(redis, 'repo:pinned', 60, {
+        dedupScope: 'owner/repo',
+      });
+      await pipeline(Readable.from([data]), pinnedWriter);
+      await persistEntry(redis, 'repo:pinned');
+
+      const writer = new EntryWriteStream(redis, 'repo:other', 60, {
+        dedupScope: 'owner/repo',
+      });
+      await pipeline(Readable.from([data]), writer);
+
+      expect(writer.reusedChunks).toBe(writer.manifest?.chunkCount);
+      fake.keys('cas:').forEach(key => expect(fake.ttls.has(key)).toBe(false));
+    });
+  });
+
+  describe('readEntryHeader()', () => {
+    test('should read the first bytes of a chunked entry', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 4,
+      });
+      await pipeline(Readable.from([Buffer.from('PK\x03\x04rest')]), writer);
+
+      const header = await readEntryHeader(redis, 'repo:key', 4);
+      expect(header?.toString('latin1')).toBe('PK\x03\x04');
+    });
+
+    test('should read the first bytes of a legacy entry', async () => {
+      await fake.setex('repo:legacy', 60, Buffer.from([0x1f, 0x8b, 8, 0, 1]));
+
+      const header = await readEntryHeader(redis, 'repo:legacy', 2);
+      expect(header).toEqual(Buffer.from([0x1f, 0x8b]));
+    });
+
+    test('should return null for missing entries', async () => {
+      expect(await readEntryHeader(redis, 'repo:missing', 4)).toBeNull();
+    });
+  });
+
+  describe('openEntry()', () => {
+    const collect = async (stream: Readable): Promise<Buffer> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk as Buffer);
+      }
+      return Buffer.concat(chunks);
+    };
+
+    test('should stream chunked entries in order', async () => {
+      const data = crypto.randomBytes(20 * 1024 + 5);
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 4096,
+      });
+      await pipeline(Readable.from([data]), writer);
+
+      const entry = await openEntry(redis, 'repo:key');
+      expect(entry?.size).toBe(data.length);
+      expect((await collect(entry!.stream)).equals(data)).toBe(true);
+    });
+
+    test('should stream legacy entries in ranges', async () => {
+      const data = crypto.randomBytes(10 * 1024);
+      await fake.setex('repo:legacy', 60, data);
+
+      const entry = await openEntry(redis, 'repo:legacy', 3000);
+      expect(entry?.size).toBe(data.length);
+      expect((await collect(entry!.stream)).equals(data)).toBe(true);
+    });
+
+    test('should error the stream when a chunk disappears mid-restore', async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 1024,
+      });
+      await pipeline(Readable.from([crypto.randomBytes(4096)]), writer);
+
+      const entry = await openEntry(redis, 'repo:key');
+      await fake.del(fake.keys('chunk:')[3]);
+
+      await expect(collect(entry!.stream)).rejects.toThrow(
+        'disappeared during restore'
+      );
+    });
+  });
+
+  describe('consumeEntry()', () => {
+    const data = crypto.randomBytes(20 * 1024);
+    const sha256 = crypto.createHash('sha256').update(data).digest('hex');
+
+    beforeEach(async () => {
+      const writer = new EntryWriteStream(redis, 'repo:key', 60, {
+        chunkSize: 4096,
+      });
+      await pipeline(Readable.from([data]), writer);
+    });
+
+    test('should hash the whole archive however much the consumer reads', async () => {
+      const entry = await openEntry(redis, 'repo:key');
+
+      // A consumer that stops early leaves the rest of the archive unread
+      expect(await consumeEntry(entry!, async () => undefined)).toBe(sha256);
+    });
+
+    test('should report corrupt data the consumer failed on', async () => {
+      const chunk = fake.keys('chunk:')[2];
+      const corrupt = Buffer.from(fake.getBuffer(chunk) as Buffer);
+      corrupt[0] ^= 0xff;
+      fake.set(chunk, corrupt);
+      const entry = await openEntry(redis, 'repo:key');
+
+      const consumed = await consumeEntry(entry!, async () => {
+        throw new Error('invalid archive');
+      });
+
+      expect(consumed).not.toBe(sha256);
+      expect(consumed).toHaveLength(64);
+    });
+
+    test('should rethrow consumer failures on an intact archive', async () => {
+      const entry = await openEntry(redis, 'repo:key');
+
+      await expect(
+        consumeEntry(entry!, async () => {
+          throw new Error('disk full');
+        })
+      ).rejects.toThrow('disk full');
+    });
+
+    test('should fail when a chunk disappears', async () => {
+      const entry = await openEntry(redis, 'repo:key');
+      await fake.del(fake.keys('chunk:')[3]);
+
+      await expect(
+        consumeEntry(entry!, async input => {
+          for await (const chunk of input) {
+            expect(chunk).toBeDefined();
+          }
+        })
+      ).rejects.toThrow('disappeared during restore');
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for branch-aware TTL policies
+ */
+
+import {
+  parseDuration,
+  parseTtlPolicy,
+  resolveTtlRule,
+  getTtlContext,
+} from '../ttl-policy';
+
+describe('TTL policy', () => {
+  describe('parseDuration()', () => {
+    test('should parse plain seconds and units', () => {
+      expect(parseDuration('3600')).toBe(3600);
+      expect(parseDuration('90s')).toBe(90);
+      expect(parseDuration('15m')).toBe(900);
+      expect(parseDuration('12h')).toBe(43200);
+      expect(parseDuration('30d')).toBe(2592000);
+    });
+
+    test('should return null for pinned entries', () => {
+      expect(parseDuration('pin')).toBeNull();
+    });
+
+    test('should reject invalid durations', () => {
+      expect(() => parseDuration('0')).toThrow('Invalid TTL "0"');
+      expect(() => parseDuration('2w')).toThrow('Invalid TTL "2w"');
+      expect(() => parseDuration('')).toThrow('Invalid TTL ""');
+    });
+  });
+
+  describe('parseTtlPolicy()', () => {
+    test('should return no rules for empty input', () => {
+      expect(parseTtlPolicy('')).toEqual([]);
+    });
+
+    test('should skip blank lines and comments', () => {
+      const rules = parseTtlPolicy(
+        '\n# main lives longest\nref:refs/heads/main = 30d\n\n'
+      );
+      expect(rules).toHaveLength(1);
+      expect(rules[0].source).toBe('ref:refs/heads/main = 30d');
+      expect(rules[0].ttl).toBe(2592000);
+    });
+
+    test('should reject rules without a TTL', () => {
+      expect(() => parseTtlPolicy('ref:refs/heads/main')).toThrow(
+        'expected <conditions> = <ttl>'
+      );
+    });
+
+    test('should reject unknown conditions', () => {
+      expect(() => parseTtlPolicy('branch:main = 30d')).toThrow(
+        'conditions must be ref:<pattern>, event:<pattern> or *'
+      );
+      expect(() => parseTtlPolicy('ref: = 30d')).toThrow('conditions must be');
+    });
+  });
+
+  describe('resolveTtlRule()', () => {
+    const rules = parseTtlPolicy(
+      [
+        'ref:refs/heads/main = 30d',
+        'ref:refs/heads/release/* = pin',
+        'event:pull_request* = 2d',
+        'event:schedule ref:refs/heads/nightly = 1d',
+      ].join('\n')
+    );
+
+    test('should return the first matching rule', () => {
+      expect(
+        resolveTtlRule(rules, {ref: 'refs/heads/main', event: 'push'})?.ttl
+      ).toBe(2592000);
+      expect(
+        resolveTtlRule(rules, {ref: 'refs/pull/7/merge', event: 'pull_request'})
+          ?.ttl
+      ).toBe(172800);
+    });
+
+    test('should match wildcards across path segments', () => {
+      const rule = resolveTtlRule(rules, {
+        ref: 'refs/heads/release/2.x/hotfix',
+        event: 'push',
+      });
+      expect(rule?.source).toBe('ref:refs/heads/release/* = pin');
+      expect(rule?.ttl).toBeNull();
+    });
+
+    test('should require every condition of a rule to match', () => {
+      expect(
+        resolveTtlRule(rules, {ref: 'refs/heads/nightly', event: 'push'})
+      ).toBeNull();
+      expect(
+        resolveTtlRule(rules, {ref: 'refs/heads/nightly', event: 'schedule'})
+          ?.ttl
+      ).toBe(86400);
+    });
+
+    test('should anchor patterns to the whole value', () => {
+      expect(
+        resolveTtlRule(rules, {ref: 'refs/heads/main-old', event: 'push'})
+      ).toBeNull();
+    });
+
+    test('should treat regex characters in patterns literally', () => {
+      const [rule] = parseTtlPolicy('ref:refs/tags/v1.0 = 1d');
+      expect(rule.ref?.test('refs/tags/v1.0')).toBe(true);
+      expect(rule.ref?.test('refs/tags/v1x0')).toBe(false);
+    });
+
+    test('should match everything with a catch-all rule', () => {
+      const [rule] = parseTtlPolicy('* = 7d');
+      expect(resolveTtlRule([rule], {ref: '', event: ''})).toBe(rule);
+    });
+  });
+
+  describe('getTtlContext()', () => {
+    afterEach(() => {
+      delete process.env.GITHUB_REF;
+      delete process.env.GITHUB_EVENT_NAME;
+    });
+
+    test('should read the ref and event from the environment', () => {
+      process.env.GITHUB_REF = 'refs/heads/main';
+      process.env.GITHUB_EVENT_NAME = 'push';
+      expect(getTtlContext()).toEqual({ref: 'refs/heads/main', event: 'push'});
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for the cache write policy
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  checkWritePolicy,
+  getWriteContext,
+  parseWritePolicy,
+  WriteContext,
+} from '../write-policy';
+
+describe('Write policy', () => {
+  const defaults = parseWritePolicy({
+    readOnlyForks: true,
+    readOnlyEvents: 'pull_request_target',
+    denyRefs: '',
+  });
+
+  const push: WriteContext = {
+    event: 'push',
+    ref: 'refs/heads/main',
+    headRepo: null,
+    baseRepo: null,
+    pullRequest: false,
+  };
+
+  const pullRequest: WriteContext = {
+    event: 'pull_request',
+    ref: 'refs/pull/7/merge',
+    headRepo: 'owner/repo',
+    baseRepo: 'owner/repo',
+    pullRequest: true,
+  };
+
+  describe('parseWritePolicy()', () => {
+    test('should split comma and newline separated lists', () => {
+      const policy = parseWritePolicy({
+        readOnlyForks: false,
+        readOnlyEvents: 'pull_request_target, workflow_run\nissue_comment',
+        denyRefs: 'refs/heads/dependabot/*\n\nrefs/tags/*',
+      });
+
+      expect(policy.readOnlyEvents).toEqual([
+        'pull_request_target',
+        'workflow_run',
+        'issue_comment',
+      ]);
+      expect(policy.denyRefs.map(ref => ref.pattern)).toEqual([
+        'refs/heads/dependabot/*',
+        'refs/tags/*',
+      ]);
+    });
+  });
+
+  describe('checkWritePolicy()', () => {
+    test('should allow pushes and same-repository pull requests', () => {
+      expect(checkWritePolicy(defaults, push)).toBeNull();
+      expect(checkWritePolicy(defaults, pullRequest)).toBeNull();
+    });
+
+    test('should refuse pull requests from forks', () => {
+      expect(
+        checkWritePolicy(defaults, {...pullRequest, headRepo: 'fork/repo'})
+      ).toBe(
+        'pull requests from forks are read-only (head repository: fork/repo)'
+      );
+    });
+
+    test('should treat a deleted fork as a fork', () => {
+      expect(
+        checkWritePolicy(defaults, {...pullRequest, headRepo: null})
+      ).toContain('head repository: deleted fork');
+    });
+
+    test('should allow forks when read-only forks are disabled', () => {
+      const policy = {...defaults, readOnlyForks: false};
+      expect(
+        checkWritePolicy(policy, {...pullRequest, headRepo: 'fork/repo'})
+      ).toBeNull();
+    });
+
+    test('should refuse read-only events', () => {
+      expect(
+        checkWritePolicy(defaults, {
+          ...pullRequest,
+          event: 'pull_request_target',
+          ref: 'refs/heads/main',
+        })
+      ).toBe('pull_request_target events are read-only');
+    });
+
+    test('should refuse deny-listed refs', () => {
+      const policy = parseWritePolicy({
+        readOnlyForks: true,
+        readOnlyEvents: '',
+        denyRefs: 'refs/heads/dependabot/*',
+      });
+
+      expect(
+        checkWritePolicy(policy, {
+          ...push,
+          ref: 'refs/heads/dependabot/npm/lodash-4.17.21',
+        })
+      ).toBe(
+        'ref refs/heads/dependabot/npm/lodash-4.17.21 matches deny-listed pattern refs/heads/dependabot/*'
+      );
+      expect(checkWritePolicy(policy, push)).toBeNull();
+    });
+  });
+
+  describe('getWriteContext()', () => {
+    const env = {...process.env};
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'write-policy-test-'));
+    });
+
+    afterEach(() => {
+      process.env = {...env};
+      fs.rmSync(testDir, {recursive: true, force: true});
+    });
+
+    test('should read the pull request repositories from the payload', () => {
+      const eventPath = path.join(testDir, 'event.json');
+      fs.writeFileSync(
+        eventPath,
+        JSON.stringify({
+          pull_request: {
+            head: {repo: {full_name: 'fork/repo'}},
+            base: {repo: {full_name: 'owner/repo'}},
+          },
+        })
+      );
+      process.env.GITHUB_EVENT_PATH = eventPath;
+      process.env.GITHUB_EVENT_NAME = 'pull_request';
+      process.env.GITHUB_REF = 'refs/pull/7/merge';
+
+      expect(getWriteContext()).toEqual({
+        event: 'pull_request',
+        ref: 'refs/pull/7/merge',
+        headRepo: 'fork/repo',
+        baseRepo: 'owner/repo',
+        pullRequest: true,
+      });
+    });
+
+    test('should describe runs without a pull request', () => {
+      delete process.env.GITHUB_EVENT_PATH;
+      process.env.GITHUB_EVENT_NAME = 'push';
+      process.env.GITHUB_REF = 'refs/heads/main';
+
+      expect(getWriteContext()).toEqual(push);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Content-defined chunking
+ *
+ * Splits a byte stream into variable-size chunks whose boundaries depend on
+ * the content rather than on offsets, using a gear rolling hash (as in
+ * FastCDC). Inserting or removing bytes only changes the chunks around the
+ * edit, so the rest of an archive splits into the same chunks as before and
+ * can be deduplicated.
+ */
+
+export const CDC_MIN_CHUNK_SIZE = 256 * 1024; // 256KB
+export const CDC_AVG_CHUNK_SIZE = 1024 * 1024; // 1MB
+export const CDC_MAX_CHUNK_SIZE = 4 * 1024 * 1024; // 4MB
+
+/**
+ * Gear table of pseudo-random 32-bit values, one per byte value
+ * Generated from a fixed seed - changing it changes every chunk boundary and
+ * defeats deduplication against previously stored chunks.
+ */
+const GEAR: Uint32Array = (() => {
+  const table = new Uint32Array(256);
+  let state = 0x9e3779b9;
+  for (let i = 0; i < table.length; i++) {
+    // xorshift32
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    table[i] = state >>> 0;
+  }
+  return table;
+})();
+
+export interface ChunkerOptions {
+  minSize?: number;
+  avgSize?: number;
+  maxSize?: number;
+}
+
+/**
+ * Incremental content-defined chunker
+ * Feed data with push() and collect the last chunk with flush(). Each byte is
+ * hashed once, however the input is split across push() calls.
+ */
+export class ContentDefinedChunker {
+  private readonly minSize: number;
+  private readonly maxSize: number;
+  private readonly mask: number;
+  private pending: Buffer[] = [];
+  private pendingBytes = 0;
+  private hash = 0;
+
+  constructor(options: ChunkerOptions = {}) {
+    this.minSize = options.minSize || CDC_MIN_CHUNK_SIZE;
+    this.maxSize = options.maxSize || CDC_MAX_CHUNK_SIZE;
+
+    // A boundary is found on average once every avgSize bytes past the minimum.
+    // The mask tests the high bits of the hash, which depend on the last 32
+    // bytes - a low bit only depends on as many bytes as its position.
+    const avgSize = options.avgSize || CDC_AVG_CHUNK_SIZE;
+    const bits = Math.min(
+      31,
+      Math.max(1, Math.round(Math.log2(avgSize - this.minSize)))
+    );
+    this.mask = ((2 ** bits - 1) << (32 - bits)) >>> 0;
+  }
+
+  /**
+   * Add data and return every chunk completed by it
+   */
+  push(data: Buffer): Buffer[] {
+    const chunks: Buffer[] = [];
+    let start = 0;
+    // Bytes before the minimum size can never end a chunk, so skip hashing them
+    let i = Math.max(0, this.minSize - this.pendingBytes);
+
+    while (i < data.length) {
+      const size = this.pendingBytes + i - start + 1;
+      this.hash = ((this.hash << 1) + GEAR[data[i]]) >>> 0;
+
+      if ((this.hash & this.mask) === 0 || size >= this.maxSize) {
+        this.pending.push(data.subarray(start, i + 1));
+        chunks.push(Buffer.concat(this.pending, size));
+        this.pending = [];
+        this.pendingBytes = 0;
+        this.hash = 0;
+        start = i + 1;
+        i = start + this.minSize - 1;
+      }
+      i++;
+    }
+
+    if (start < data.length) {
+      this.pending.push(data.subarray(start));
+      this.pendingBytes += data.length - start;
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Return the remaining data as the final chunk, if any
+   */
+  flush(): Buffer | null {
+    if (this.pendingBytes === 0) {
+      return null;
+    }
+
+    const last = Buffer.concat(this.pending, this.pendingBytes);
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.hash = 0;
+    return last;
+  }
+}
@@ -3,43 +3,225 @@
  */
 
 import * as core from '@actions/core';
-import {Redis} from 'ioredis';
-import {CacheConfig} from './types';
+import {ConnectionOptions} from 'tls';
+import {Cluster, ClusterOptions, Redis, RedisOptions} from 'ioredis';
+import {CacheConfig, RedisClient, RedisNode, TlsConfig} from './types';
+
+/**
+ * Retry strategy shared by standalone and cluster connections
+ */
+function retryStrategy(times: number): number | null {
+  core.debug(`  Redis connection retry attempt ${times}/3`);
+  if (times > 3) {
+    core.warning('Failed to connect to Redis after 3 attempts');
+    return null;
+  }
+  const delay = Math.min(times * 200, 2000);
+  core.debug(`  Waiting ${delay}ms before retry`);
+  return delay;
+}
+
+const SENTINEL_MAX_RETRIES = 20;
+
+/**
+ * Retry strategy for sentinel connections
+ * A failover takes several seconds, so keep reconnecting for longer than the
+ * default strategy before giving up.
+ */
+function sentinelRetryStrategy(times: number): number | null {
+  core.debug(`  Redis reconnect attempt ${times}/${SENTINEL_MAX_RETRIES}`);
+  if (times > SENTINEL_MAX_RETRIES) {
+    core.warning(
+      `Failed to reach the Redis master after ${SENTINEL_MAX_RETRIES} attempts`
+    );
+    return null;
+  }
+  return Math.min(times * 500, 3000);
+}
+
+/**
+ * Convert TLS settings into Node.js TLS connection options
+ */
+export function getTlsOptions(tls: TlsConfig): ConnectionOptions {
+  const options: ConnectionOptions = {
+    ca: tls.ca,
+    cert: tls.cert,
+    key: tls.key,
+    servername: tls.servername,
+  };
+
+  if (tls.insecureSkipVerify) {
+    options.rejectUnauthorized = false;
+    options.checkServerIdentity = () => undefined;
+  }
+
+  return options;
+}
+
+/**
+ * Describe the connection target for log messages
+ */
+export function describeRedisTarget(config: CacheConfig): string {
+  if (config.clusterNodes && config.clusterNodes.length > 0) {
+    const seeds = config.clusterNodes.map(n => `${n.host}:${n.port}`);
+    return `cluster (seeds: ${seeds.join(', ')})`;
+  }
+  if (config.sentinels && config.sentinels.length > 0) {
+    const sentinels = config.sentinels.map(n => `${n.host}:${n.port}`);
+    return `sentinel master '${config.sentinelMasterName}' (sentinels: ${sentinels.join(', ')})`;
+  }
+  const db = config.redisDb ? `/${config.redisDb}` : '';
+  return `${config.redisHost}:${config.redisPort}${db}`;
+}
+
+/**
+ * Connection options for one kind of deployment
+ */
+export type RedisClientOptions =
+  | {mode: 'cluster'; nodes: RedisNode[]; options: ClusterOptions}
+  | {mode: 'sentinel' | 'standalone'; options: RedisOptions};
+
+/**
+ * Build the ioredis options for a config
+ * Cluster seed nodes select a Redis Cluster, sentinels select Redis Sentinel,
+ * anything else a standalone server
+ */
+export function getRedisClientOptions(config: CacheConfig): RedisClientOptions {
+  if (config.clusterNodes?.length && config.sentinels?.length) {
+    throw new Error(
+      'redis-cluster-nodes and redis-sentinels cannot be used together'
+    );
+  }
+
+  if (config.clusterNodes?.length && config.redisDb) {
+    throw new Error(
+      'Redis Cluster only supports database 0 - remove the database index from redis-url'
+    );
+  }
+
+  const tls = config.tls ? getTlsOptions(config.tls) : undefined;
+
+  const options: RedisOptions = {
+    username: config.redisUsername,
+    password: config.redisPassword,
+    db: config.redisDb,
+    tls,
+    commandTimeout: config.timeoutSeconds * 1000, // Convert seconds to milliseconds
+    retryStrategy,
+    maxRetriesPerRequest: 3,
+    enableOfflineQueue: false,
+    lazyConnect: true,
+  };
+
+  if (config.clusterNodes && config.clusterNodes.length > 0) {
+    return {
+      mode: 'cluster',
+      nodes: config.clusterNodes,
+      options: {
+        redisOptions: options,
+        clusterRetryStrategy: retryStrategy,
+        // Queue commands while slots are refreshed after MOVED/failover
+        enableOfflineQueue: true,
+        lazyConnect: true,
+      },
+    };
+  }
+
+  if (config.sentinels && config.sentinels.length > 0) {
+    return {
+      mode: 'sentinel',
+      options: {
+        ...options,
+        sentinels: config.sentinels,
+        name: config.sentinelMasterName,
+        // Sentinels usually share the data password
+        sentinelPassword: config.sentinelPassword ?? config.redisPassword,
+        // Sentinels are reached over TLS too when it is enabled
+        enableTLSForSentinelMode: !!tls,
+        sentinelTLS: tls,
+        role: 'master',
+        // Follow +switch-master events so a failover is picked up immediately
+        failoverDetector: true,
+        retryStrategy: sentinelRetryStrategy,
+        sentinelRetryStrategy,
+        // Queue and retry commands while reconnecting to the new master,
+        // so a failover in the middle of an upload doesn't abort the save
+        enableOfflineQueue: true,
+        maxRetriesPerRequest: SENTINEL_MAX_RETRIES,
+        reconnectOnError: (error: Error) => {
+          // A demoted master rejects writes - reconnect and resend the command
+          if (error.message.startsWith('READONLY')) {
+            core.warning(
+              'Redis master was demoted - reconnecting to new master'
+            );
+            return 2;
+          }
+          return false;
+        },
+      },
+    };
+  }
+
+  return {
+    mode: 'standalone',
+    options: {
+      ...options,
+      host: config.redisHost,
+      port: config.redisPort,
+    },
+  };
+}
 
 /**
  * Create Redis client with configuration and retry logic
+ * Connects to a Redis Cluster when cluster seed nodes are configured, or
+ * discovers the current master through Redis Sentinel when sentinels are
  */
 export async function createRedisClient(
   config: CacheConfig
-): Promise<Redis> {
-  core.debug(
-    `Creating Redis client for ${config.redisHost}:${config.redisPort}`
-  );
+): Promise<RedisClient> {
+  const clientOptions = getRedisClientOptions(config);
+
+  const target = describeRedisTarget(config);
+  core.debug(`Creating Redis client for ${target}`);
   core.debug(
     `  Authentication: ${config.redisPassword ? 'Enabled' : 'Disabled'}`
   );
+  if (config.redisUsername) {
+    core.debug(`  ACL username: ${config.redisUsername}`);
+  }
+  core.debug(`  TLS: ${config.tls ? 'Enabled' : 'Disabled'}`);
+  if (config.tls) {
+    core.debug(`    CA bundle: ${config.tls.ca ? 'Custom' : 'System'}`);
+    core.debug(`    Client certificate: ${config.tls.cert ? 'Yes' : 'No'}`);
+    if (config.tls.servername) {
+      core.debug(`    SNI server name: ${config.tls.servername}`);
+    }
+    if (config.tls.insecureSkipVerify) {
+      core.warning(
+        'TLS certificate verification is disabled - use only for testing'
+      );
+    }
+  }
   core.debug(`  Retry strategy: Max 3 attempts with exponential backoff`);
   core.debug(`  Command timeout: ${config.timeoutSeconds} seconds`);
 
-  const redis = new Redis({
-    host: config.redisHost,
-    port: config.redisPort,
-    password: config.redisPassword,
-    commandTimeout: config.timeoutSeconds * 1000, // Convert seconds to milliseconds
-    retryStrategy: (times: number) => {
-      core.debug(`  Redis connection retry attempt ${times}/3`);
-      if (times > 3) {
-        core.warning('Failed to connect to Redis after 3 attempts');
-        return null;
-      }
-      const delay = Math.min(times * 200, 2000);
-      core.debug(`  Waiting ${delay}ms before retry`);
-      return delay;
-    },
-    maxRetriesPerRequest: 3,
-    enableOfflineQueue: false,
-    lazyConnect: true,
-  });
+  let redis: RedisClient;
+
+  if (clientOptions.mode === 'cluster') {
+    core.debug(`  Cluster mode: ${clientOptions.nodes.length} seed node(s)`);
+    redis = new Cluster(clientOptions.nodes, clientOptions.options);
+  } else {
+    if (clientOptions.mode === 'sentinel') {
+      core.debug(
+        `  Sentinel mode: master '${config.sentinelMasterName}' via ${config.sentinels?.length} sentinel(s)`
+      );
+      core.debug(
+        `  Sentinel authentication: ${clientOptions.options.sentinelPassword ? 'Enabled' : 'Disabled'}`
+      );
+    }
+    redis = new Redis(clientOptions.options);
+  }
 
   try {
     core.debug('Attempting to connect to Redis...');
@@ -49,7 +231,12 @@ export async function createRedisClient(
     const pong = await redis.ping();
     core.debug(`  Redis PING response: ${pong}`);
 
-    core.info(`✅ Connected to Redis at ${config.redisHost}:${config.redisPort}`);
+    if (redis instanceof Cluster) {
+      const masters = redis.nodes('master').length;
+      core.info(`✅ Connected to Redis Cluster with ${masters} master node(s)`);
+    } else {
+      core.info(`✅ Connected to Redis at ${target}`);
+    }
     return redis;
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
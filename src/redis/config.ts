@@ -0,0 +1,214 @@
+/**
+ * Redis connection settings parsing
+ */
+
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import {CacheConfig, RedisNode, TlsConfig} from './types';
+
+export const DEFAULT_REDIS_PORT = 6379;
+export const DEFAULT_SENTINEL_PORT = 26379;
+
+/**
+ * Parse a list of host:port addresses
+ * Entries may be separated by newlines or commas; the port defaults to defaultPort
+ */
+export function parseRedisNodes(
+  input: string,
+  defaultPort: number
+): RedisNode[] {
+  return input
+    .split(/[\n,]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      // Bracketed IPv6 addresses: [::1]:6379
+      const match =
+        entry.match(/^\[(.+)\](?::(\d+))?$/) ||
+        entry.match(/^([^:]+)(?::(\d+))?$/);
+
+      if (!match) {
+        throw new Error(`Invalid Redis node address: ${entry}`);
+      }
+
+      const port = match[2] ? parseInt(match[2], 10) : defaultPort;
+      if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        throw new Error(`Invalid port in Redis node address: ${entry}`);
+      }
+
+      return {host: match[1], port};
+    });
+}
+
+export interface RedisUrl {
+  host: string;
+  port: number;
+  username?: string;
+  password?: string;
+  db: number;
+  tls: boolean;
+}
+
+/**
+ * Parse a redis://[user[:password]@]host[:port][/db] connection URL
+ * The rediss:// scheme selects TLS
+ */
+export function parseRedisUrl(input: string): RedisUrl {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    // Don't echo the input - it usually contains a password
+    throw new Error(
+      'Invalid Redis URL - expected redis://[user[:password]@]host[:port][/db]'
+    );
+  }
+
+  if (url.protocol !== 'redis:' && url.protocol !== 'rediss:') {
+    throw new Error(
+      `Unsupported Redis URL scheme '${url.protocol}' - use redis:// or rediss://`
+    );
+  }
+
+  if (!url.hostname) {
+    throw new Error('Redis URL is missing a host');
+  }
+
+  const dbPath = url.pathname.replace(/^\//, '');
+  const db = dbPath ? Number(dbPath) : 0;
+  if (!/^\d*$/.test(dbPath) || !Number.isInteger(db)) {
+    throw new Error(`Invalid database index in Redis URL: ${dbPath}`);
+  }
+
+  return {
+    // Strip the brackets of IPv6 literals
+    host: url.hostname.replace(/^\[(.*)\]$/, '$1'),
+    port: url.port ? parseInt(url.port, 10) : DEFAULT_REDIS_PORT,
+    username: url.username ? decodeURIComponent(url.username) : undefined,
+    password: url.password ? decodeURIComponent(url.password) : undefined,
+    db,
+    tls: url.protocol === 'rediss:',
+  };
+}
+
+/**
+ * Override the connection settings of a config with a parsed connection URL
+ * The URL takes precedence over redis-host, redis-port and redis-password;
+ * redis-password is only used when the URL carries no password
+ */
+export function applyRedisUrl(config: CacheConfig, url: RedisUrl): CacheConfig {
+  return {
+    ...config,
+    redisHost: url.host,
+    redisPort: url.port,
+    redisUsername: url.username,
+    redisPassword: url.password ?? config.redisPassword,
+    redisDb: url.db,
+    // rediss:// enables TLS with default settings unless TLS inputs were given
+    tls: config.tls || (url.tls ? {} : undefined),
+  };
+}
+
+export interface TlsInputs {
+  enabled: boolean;
+  ca: string;
+  cert: string;
+  key: string;
+  servername: string;
+  insecureSkipVerify: boolean;
+}
+
+/**
+ * Load a PEM value given either inline or as a path to a file
+ */
+export function loadPem(value: string, description: string): string {
+  const trimmed = value.trim();
+
+  if (trimmed.startsWith('-----BEGIN')) {
+    return trimmed;
+  }
+
+  try {
+    return fs.readFileSync(trimmed, 'utf8');
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Failed to read TLS ${description} from ${trimmed}: ${errorMsg}`
+    );
+  }
+}
+
+/**
+ * Build TLS settings from action inputs
+ * TLS is enabled explicitly or implicitly by providing any certificate input
+ * Returns undefined for plain TCP connections
+ */
+export function parseTlsConfig(inputs: TlsInputs): TlsConfig | undefined {
+  const enabled =
+    inputs.enabled ||
+    inputs.ca.length > 0 ||
+    inputs.cert.length > 0 ||
+    inputs.key.length > 0;
+
+  if (!enabled) {
+    return undefined;
+  }
+
+  if (inputs.cert.length > 0 !== inputs.key.length > 0) {
+    throw new Error(
+      'Mutual TLS requires both redis-tls-cert and redis-tls-key'
+    );
+  }
+
+  return {
+    ca: inputs.ca ? loadPem(inputs.ca, 'CA bundle') : undefined,
+    cert: inputs.cert ? loadPem(inputs.cert, 'client certificate') : undefined,
+    key: inputs.key ? loadPem(inputs.key, 'client key') : undefined,
+    servername: inputs.servername || undefined,
+    insecureSkipVerify: inputs.insecureSkipVerify,
+  };
+}
+
+/**
+ * Reads a setting by its input name
+ * The restore step and the standalone actions read inputs; the post step of
+ * the main action reads the state recorded by its restore step.
+ */
+export type SettingReader = (name: string) => string;
+
+/**
+ * Read the connection settings, TTL, compression level and timeout
+ * redis-url takes precedence over redis-host, redis-port and redis-password;
+ * its password is masked in the log.
+ */
+export function readCacheConfig(read: SettingReader): CacheConfig {
+  const redisPort = parseInt(read('redis-port'), 10);
+  const redisUrlInput = read('redis-url');
+  const redisUrl = redisUrlInput ? parseRedisUrl(redisUrlInput) : undefined;
+  if (redisUrl?.password) {
+    core.setSecret(redisUrl.password);
+  }
+
+  const config: CacheConfig = {
+    redisHost: read('redis-host'),
+    redisPort,
+    redisPassword: read('redis-password') || undefined,
+    clusterNodes: parseRedisNodes(read('redis-cluster-nodes'), redisPort),
+    sentinels: parseRedisNodes(read('redis-sentinels'), DEFAULT_SENTINEL_PORT),
+    sentinelMasterName: read('redis-sentinel-master') || 'mymaster',
+    sentinelPassword: read('redis-sentinel-password') || undefined,
+    tls: parseTlsConfig({
+      enabled: read('redis-tls') === 'true',
+      ca: read('redis-tls-ca'),
+      cert: read('redis-tls-cert'),
+      key: read('redis-tls-key'),
+      servername: read('redis-tls-servername'),
+      insecureSkipVerify: read('redis-tls-insecure-skip-verify') === 'true',
+    }),
+    ttl: parseInt(read('ttl'), 10),
+    compression: parseInt(read('compression'), 10),
+    timeoutSeconds: parseInt(read('timeout-seconds'), 10),
+  };
+
+  return redisUrl ? applyRedisUrl(config, redisUrl) : config;
+}
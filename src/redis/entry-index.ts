@@ -0,0 +1,144 @@
+/**
+ * Per-repository index of cache entries
+ *
+ * Every save adds its full key to a sorted set scored by save time, so
+ * restore keys can be resolved to the most recently saved matching entry
+ * without scanning the whole keyspace. Members whose entry has expired or
+ * been evicted are removed lazily when a lookup comes across them, and
+ * pruned whenever a save adds to the index.
+ */
+
+import * as core from '@actions/core';
+import {entryExists, extendExpiry} from './storage';
+import {RedisClient} from './types';
+
+const INDEX_BATCH_SIZE = 100;
+
+/**
+ * Record a saved entry in the index
+ * The index lives as long as the longest-lived entry it lists, and never
+ * expires once a pinned entry (ttl null) has been added to it. Members saved
+ * more than ttl seconds earlier are pruned if their entry no longer exists
+ */
+export async function addToIndex(
+  redis: RedisClient,
+  indexKey: string,
+  fullKey: string,
+  savedAt: number,
+  ttl: number | null
+): Promise<void> {
+  const created = !(await indexExists(redis, indexKey));
+  await redis.zadd(indexKey, savedAt, fullKey);
+
+  if (ttl === null) {
+    await redis.persist(indexKey);
+  } else if (created) {
+    await redis.expire(indexKey, ttl);
+  } else {
+    await extendExpiry(redis, indexKey, ttl);
+    await pruneIndex(redis, indexKey, savedAt - ttl * 1000);
+  }
+}
+
+/**
+ * Remove members saved before a time whose entry no longer exists
+ * Older members are kept while their entry lives on, e.g. pinned entries or
+ * entries whose expiry was extended by a restore
+ */
+async function pruneIndex(
+  redis: RedisClient,
+  indexKey: string,
+  savedBefore: number
+): Promise<void> {
+  let offset = 0;
+
+  for (;;) {
+    const members = await redis.zrangebyscore(
+      indexKey,
+      '-inf',
+      `(${savedBefore}`,
+      'LIMIT',
+      offset,
+      INDEX_BATCH_SIZE
+    );
+    if (members.length === 0) {
+      return;
+    }
+
+    for (const member of members) {
+      if (await entryExists(redis, member)) {
+        offset++;
+        continue;
+      }
+
+      core.debug(`  Removing expired entry from index: ${member}`);
+      await redis.zrem(indexKey, member);
+    }
+  }
+}
+
+/**
+ * Extend the expiry of the index, e.g. when one of its entries is restored
+ * Keeps the index alive as long as entries it lists are kept alive
+ */
+export async function refreshIndex(
+  redis: RedisClient,
+  indexKey: string,
+  ttl: number
+): Promise<void> {
+  await extendExpiry(redis, indexKey, ttl);
+}
+
+/**
+ * Check whether an index exists
+ * Entries saved before the index was introduced are only found by SCAN
+ */
+export async function indexExists(
+  redis: RedisClient,
+  indexKey: string
+): Promise<boolean> {
+  return (await redis.exists(indexKey)) === 1;
+}
+
+/**
+ * Find the most recently saved entry whose full key starts with a prefix
+ * The prefix may end with a '*' wildcard, as restore-key patterns do
+ * Returns the full key, or null if no live entry matches
+ */
+export async function findLatestEntry(
+  redis: RedisClient,
+  indexKey: string,
+  fullKeyPrefix: string
+): Promise<string | null> {
+  const prefix = fullKeyPrefix.replace(/\*$/, '');
+  let start = 0;
+
+  for (;;) {
+    const members = await redis.zrevrange(
+      indexKey,
+      start,
+      start + INDEX_BATCH_SIZE - 1
+    );
+    if (members.length === 0) {
+      return null;
+    }
+
+    let removed = 0;
+    for (const member of members) {
+      if (!member.startsWith(prefix)) {
+        continue;
+      }
+
+      if (await entryExists(redis, member)) {
+        return member;
+      }
+
+      core.debug(`  Removing expired entry from index: ${member}`);
+      await redis.zrem(indexKey, member);
+      removed++;
+    }
+
+    // Removed members shift the remaining ones towards the start
+    start += members.length - removed;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Content fingerprints of saved entries
+ *
+ * A save can record a fingerprint of the files it archived (see
+ * getPathsFingerprint) along with the entry that holds them. When a later
+ * save under a different key finds the same files, for example after a key
+ * bump that didn't change any dependencies, it copies that entry's archive
+ * instead of compressing and uploading the files again.
+ *
+ * Each fingerprint maps to the entry saved with it most recently, and expires
+ * with that entry.
+ */
+
+import {getFingerprintKey} from './keys';
+import {entryExists} from './storage';
+import {RedisClient} from './types';
+
+/**
+ * Record that an entry holds files with the given fingerprint
+ * @param ttl - Expiry of the record, or null for pinned entries
+ */
+export async function recordFingerprint(
+  redis: RedisClient,
+  scope: string,
+  fingerprint: string,
+  fullKey: string,
+  ttl: number | null
+): Promise<void> {
+  const key = getFingerprintKey(scope, fingerprint);
+
+  if (ttl === null) {
+    await redis.set(key, fullKey);
+  } else {
+    await redis.set(key, fullKey, 'EX', ttl);
+  }
+}
+
+/**
+ * Find the entry holding files with the given fingerprint
+ * Returns the entry's full key, or null if there is none or it has expired
+ */
+export async function findEntryByFingerprint(
+  redis: RedisClient,
+  scope: string,
+  fingerprint: string
+): Promise<string | null> {
+  const fullKey = await redis.get(getFingerprintKey(scope, fingerprint));
+
+  if (!fullKey || !(await entryExists(redis, fullKey))) {
+    return null;
+  }
+
+  return fullKey;
+}
@@ -2,11 +2,31 @@
  * Redis module - Cache storage and retrieval
  *
  * This module provides:
- * - Redis client creation with retry logic
+ * - Redis client creation with retry logic (standalone or cluster)
  * - Key scanning for pattern matching
+ * - Per-repository index of entries ordered by save time
  * - Cache key scoping to prevent collisions
+ * - Chunked entry storage for archives beyond the 512MB string limit
+ * - Content-defined chunk deduplication across entries
+ * - Save locks so only one concurrent job uploads a key
+ * - Producer markers so jobs missing a key can wait for the one building it
+ * - Per-entry metadata records describing the save that produced them
+ * - Branch-aware TTL policies, including pinned entries that never expire
+ * - Write policies keeping forks and other untrusted runs read-only
+ * - Per-scope storage accounting with quotas and oldest-first eviction
+ * - Content fingerprints so identical saves copy an existing entry
  */
 
 export * from './types';
+export * from './config';
 export * from './client';
 export * from './operations';
+export * from './keys';
+export * from './chunker';
+export * from './storage';
+export * from './entry-index';
+export * from './lock';
+export * from './ttl-policy';
+export * from './write-policy';
+export * from './quota';
+export * from './fingerprint';
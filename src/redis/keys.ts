@@ -0,0 +1,113 @@
+/**
+ * Redis key layout for cache entries
+ *
+ * Each cache entry is a manifest hash stored under the entry key, with the
+ * archive itself split across chunk keys and a metadata hash describing where
+ * the archive came from. Auxiliary keys are prefixed rather
+ * than suffixed so restore-key pattern scans only ever match entry keys.
+ *
+ * In cluster mode the full key is wrapped in a hash tag, so every key of an
+ * entry hashes to the same slot and multi-key commands (EXISTS, DEL, MULTI)
+ * keep working across shards.
+ */
+
+export interface EntryKeys {
+  /**
+   * Manifest hash describing the stored archive
+   */
+  entry: string;
+
+  /**
+   * Metadata hash describing the save that produced the entry
+   */
+  meta: string;
+
+  /**
+   * Lock held by the job currently saving the entry
+   */
+  lock: string;
+
+  /**
+   * Marker left by the job that is building the entry's contents
+   */
+  building: string;
+
+  /**
+   * Chunk key for a given save and chunk index
+   */
+  chunk(saveId: string, index: number): string;
+}
+
+/**
+ * Get all Redis keys belonging to a cache entry
+ * @param fullKey - Scoped cache key (see getCacheKey)
+ * @param hashTag - Wrap the key in a cluster hash tag
+ */
+export function getEntryKeys(fullKey: string, hashTag = false): EntryKeys {
+  const base = hashTag ? `{${fullKey}}` : fullKey;
+
+  return {
+    entry: base,
+    meta: `meta:${base}`,
+    lock: `lock:${base}`,
+    building: `building:${base}`,
+    chunk: (saveId: string, index: number) =>
+      `chunk:${base}:${saveId}:${index}`,
+  };
+}
+
+/**
+ * Get a SCAN pattern matching entry keys that start with a full key prefix
+ * The prefix may itself end with a '*' wildcard
+ */
+export function getEntryPattern(
+  fullKeyPrefix: string,
+  hashTag = false
+): string {
+  const pattern = fullKeyPrefix.endsWith('*')
+    ? fullKeyPrefix
+    : `${fullKeyPrefix}*`;
+  return hashTag ? `{${pattern}` : pattern;
+}
+
+/**
+ * Recover the full key from an entry key found by SCAN
+ */
+export function getFullKeyFromEntry(entryKey: string, hashTag = false): string {
+  if (hashTag && entryKey.startsWith('{') && entryKey.endsWith('}')) {
+    return entryKey.slice(1, -1);
+  }
+  return entryKey;
+}
+
+/**
+ * Get the key of the entry index of a cache scope (see entry-index)
+ * Prefixed like other auxiliary keys so restore-key scans never match it
+ */
+export function getIndexKey(scope: string): string {
+  return `index:${scope}`;
+}
+
+/**
+ * Get the key of the usage hash of a cache scope (see quota)
+ */
+export function getUsageKey(scope: string): string {
+  return `usage:${scope}`;
+}
+
+/**
+ * Get the key recording which entry of a cache scope holds files with a
+ * given content fingerprint (see fingerprint)
+ */
+export function getFingerprintKey(scope: string, fingerprint: string): string {
+  return `fingerprint:${scope}:${fingerprint}`;
+}
+
+/**
+ * Get the key of a content-addressed chunk shared between entries of a scope
+ * Not hash-tagged: shared chunks are spread across cluster shards and are
+ * always accessed with single-key commands.
+ */
+export function getContentChunkKey(scope: string, hash: string): string {
+  return `cas:${scope}:${hash}`;
+}
@@ -0,0 +1,267 @@
+/**
+ * Save coordination between concurrent jobs
+ *
+ * When several jobs miss the same key, only the one holding the key's save
+ * lock compresses and uploads the archive; the others defer to it. The lock
+ * is short-lived and kept alive by a heartbeat while the upload runs, so a
+ * holder that crashes releases it within one lock TTL.
+ *
+ * Restores can go one step further: the first job to miss a key leaves a
+ * "being built" marker, and jobs missing the same key afterwards wait for
+ * that producer's save instead of building the same contents themselves.
+ */
+
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import {getEntryKeys} from './keys';
+import {entryExists} from './storage';
+import {RedisClient} from './types';
+
+export const SAVE_LOCK_TTL = 60; // seconds
+export const PRODUCER_MARKER_TTL = 60; // seconds
+export const PRODUCER_POLL_INTERVAL = 5; // seconds
+
+/**
+ * Outcome of waiting for another job to save a key
+ * - ready: the entry was saved
+ * - abandoned: the producer gave up (or its marker expired) without saving
+ * - timeout: the wait budget ran out while the producer was still building
+ */
+export type ProducerWaitResult = 'ready' | 'abandoned' | 'timeout';
+
+// Only touch the lock while it still holds our token
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const REFRESH_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('expire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * Describe the current job for lock holder messages
+ */
+function describeJob(): string {
+  const runId = process.env.GITHUB_RUN_ID || 'local';
+  const job = process.env.GITHUB_JOB || 'unknown';
+  return `run ${runId}, job ${job}`;
+}
+
+/**
+ * Create a token identifying this job as a lock or marker holder
+ */
+function createToken(): string {
+  return `${describeJob()} (${crypto.randomBytes(4).toString('hex')})`;
+}
+
+/**
+ * Exclusive lock on saving a cache key
+ */
+export class SaveLock {
+  private heartbeat?: NodeJS.Timeout;
+
+  private constructor(
+    private readonly redis: RedisClient,
+    private readonly key: string,
+    private readonly token: string,
+    private readonly ttl: number
+  ) {}
+
+  /**
+   * Try to take the save lock of a key
+   * Returns null if another job holds it
+   */
+  static async acquire(
+    redis: RedisClient,
+    fullKey: string,
+    ttl: number = SAVE_LOCK_TTL
+  ): Promise<SaveLock | null> {
+    const key = getEntryKeys(fullKey, redis.isCluster).lock;
+    const token = createToken();
+
+    const result = await redis.set(key, token, 'EX', ttl, 'NX');
+    if (result !== 'OK') {
+      return null;
+    }
+
+    core.debug(`Acquired save lock ${key} for ${ttl}s`);
+    const lock = new SaveLock(redis, key, token, ttl);
+    lock.startHeartbeat();
+    return lock;
+  }
+
+  /**
+   * Release the lock if it is still held by this job
+   */
+  async release(): Promise<void> {
+    this.stopHeartbeat();
+    try {
+      await this.redis.eval(RELEASE_SCRIPT, 1, this.key, this.token);
+      core.debug(`Released save lock ${this.key}`);
+    } catch (error) {
+      // The lock expires on its own
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      core.debug(`Failed to release save lock: ${errorMsg}`);
+    }
+  }
+
+  private startHeartbeat(): void {
+    const interval = Math.max(1, Math.floor(this.ttl / 3)) * 1000;
+    this.heartbeat = setInterval(() => {
+      this.redis
+        .eval(REFRESH_SCRIPT, 1, this.key, this.token, this.ttl)
+        .then(refreshed => {
+          if (refreshed !== 1) {
+            core.warning(
+              'Save lock expired during upload - another job may save this key too'
+            );
+            this.stopHeartbeat();
+          }
+        })
+        .catch(error => {
+          const errorMsg =
+            error instanceof Error ? error.message : String(error);
+          core.debug(`Failed to refresh save lock: ${errorMsg}`);
+        });
+    }, interval);
+    // Never keep the process alive just for the heartbeat
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+    }
+  }
+}
+
+/**
+ * Describe the job currently holding the save lock of a key
+ * Returns null if the lock is free
+ */
+export async function getSaveLockHolder(
+  redis: RedisClient,
+  fullKey: string
+): Promise<string | null> {
+  return redis.get(getEntryKeys(fullKey, redis.isCluster).lock);
+}
+
+/**
+ * Announce that this job is building the contents of a key
+ * The marker is short-lived and kept alive by keepProducerAlive until the
+ * save step releases it, so jobs waiting on a producer whose job fails give
+ * up within one marker TTL. Returns the marker token for releaseProducer, or
+ * null if another job is already building the key.
+ */
+export async function claimProducer(
+  redis: RedisClient,
+  fullKey: string,
+  ttl: number = PRODUCER_MARKER_TTL
+): Promise<string | null> {
+  const key = getEntryKeys(fullKey, redis.isCluster).building;
+  const token = createToken();
+
+  const result = await redis.set(key, token, 'EX', ttl, 'NX');
+  if (result !== 'OK') {
+    return null;
+  }
+
+  core.debug(`Claimed producer marker ${key} for ${ttl}s`);
+  return token;
+}
+
+/**
+ * Refresh this job's producer marker until it is released or lost
+ * Resolves once the marker no longer holds the token. Failed refreshes are
+ * retried on the next beat; if they keep failing, the marker expires.
+ */
+export async function keepProducerAlive(
+  redis: RedisClient,
+  fullKey: string,
+  token: string,
+  ttl: number = PRODUCER_MARKER_TTL
+): Promise<void> {
+  const key = getEntryKeys(fullKey, redis.isCluster).building;
+  const interval = Math.max(1, Math.floor(ttl / 3)) * 1000;
+
+  for (;;) {
+    await new Promise(resolve => setTimeout(resolve, interval));
+    try {
+      if ((await redis.eval(REFRESH_SCRIPT, 1, key, token, ttl)) !== 1) {
+        return;
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      core.debug(`Failed to refresh producer marker: ${errorMsg}`);
+    }
+  }
+}
+
+/**
+ * Describe the job currently building a key
+ * Returns null if no job announced it is building the key
+ */
+export async function getProducer(
+  redis: RedisClient,
+  fullKey: string
+): Promise<string | null> {
+  return redis.get(getEntryKeys(fullKey, redis.isCluster).building);
+}
+
+/**
+ * Remove this job's producer marker once its save is done (or skipped)
+ */
+export async function releaseProducer(
+  redis: RedisClient,
+  fullKey: string,
+  token: string
+): Promise<void> {
+  const key = getEntryKeys(fullKey, redis.isCluster).building;
+  try {
+    await redis.eval(RELEASE_SCRIPT, 1, key, token);
+    core.debug(`Released producer marker ${key}`);
+  } catch (error) {
+    // The marker expires on its own
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    core.debug(`Failed to release producer marker: ${errorMsg}`);
+  }
+}
+
+/**
+ * Poll until the producer of a key has saved it, given up, or the wait
+ * budget runs out
+ * @param timeoutSeconds - Maximum time to wait
+ * @param pollSeconds - Delay between checks
+ */
+export async function waitForProducer(
+  redis: RedisClient,
+  fullKey: string,
+  timeoutSeconds: number,
+  pollSeconds: number = PRODUCER_POLL_INTERVAL
+): Promise<ProducerWaitResult> {
+  const marker = getEntryKeys(fullKey, redis.isCluster).building;
+  const deadline = Date.now() + timeoutSeconds * 1000;
+
+  for (;;) {
+    if (await entryExists(redis, fullKey)) {
+      return 'ready';
+    }
+    if ((await redis.exists(marker)) === 0) {
+      // The producer may have saved between the two checks
+      return (await entryExists(redis, fullKey)) ? 'ready' : 'abandoned';
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      return 'timeout';
+    }
+    await new Promise(resolve =>
+      setTimeout(resolve, Math.min(pollSeconds * 1000, remaining))
+    );
+  }
+}
@@ -3,46 +3,67 @@
  */
 
 import * as core from '@actions/core';
-import {Redis} from 'ioredis';
+import * as fs from 'fs';
+import {Cluster, Redis} from 'ioredis';
+import {EventPayload, RedisClient} from './types';
+
+/**
+ * Scan the keys of a single node matching a pattern
+ */
+async function scanNode(redis: Redis, pattern: string): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor = '0';
+  let iterations = 0;
+
+  do {
+    iterations++;
+    core.debug(`  SCAN iteration ${iterations}, cursor: ${cursor}`);
+
+    const [nextCursor, matchingKeys] = await redis.scan(
+      cursor,
+      'MATCH',
+      pattern,
+      'COUNT',
+      100
+    );
+    cursor = nextCursor;
+    const matches = matchingKeys as string[];
+
+    if (matches.length > 0) {
+      core.debug(`    Found ${matches.length} keys in this iteration`);
+      keys.push(...matches);
+    }
+  } while (cursor !== '0');
+
+  core.debug(
+    `  SCAN completed: ${keys.length} total keys found in ${iterations} iterations`
+  );
+  return keys;
+}
 
 /**
  * Scan Redis keys matching a pattern
+ * In cluster mode every master node is scanned, since each holds a subset of slots
  */
 export async function scanKeys(
-  redis: Redis,
+  redis: RedisClient,
   pattern: string
 ): Promise<string[]> {
   core.debug(`Scanning Redis keys with pattern: ${pattern}`);
 
-  const keys: string[] = [];
-  let cursor = '0';
-  let iterations = 0;
-
   try {
-    do {
-      iterations++;
-      core.debug(`  SCAN iteration ${iterations}, cursor: ${cursor}`);
-
-      const [nextCursor, matchingKeys] = await redis.scan(
-        cursor,
-        'MATCH',
-        pattern,
-        'COUNT',
-        100
-      );
-      cursor = nextCursor;
-      const matches = matchingKeys as string[];
+    if (redis instanceof Cluster) {
+      const masters = redis.nodes('master');
+      core.debug(`  Cluster mode: scanning ${masters.length} master node(s)`);
 
-      if (matches.length > 0) {
-        core.debug(`    Found ${matches.length} keys in this iteration`);
-        keys.push(...matches);
+      const keys: string[] = [];
+      for (const node of masters) {
+        keys.push(...(await scanNode(node, pattern)));
       }
-    } while (cursor !== '0');
+      return [...new Set(keys)];
+    }
 
-    core.debug(
-      `  SCAN completed: ${keys.length} total keys found in ${iterations} iterations`
-    );
-    return keys;
+    return await scanNode(redis, pattern);
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : String(error);
     core.error(`Redis SCAN failed: ${errorMsg}`);
@@ -52,13 +73,141 @@ export async function scanKeys(
   }
 }
 
+export const DEFAULT_SCOPE_TEMPLATE = '{repo}';
+
+/**
+ * Encode a key segment so it can never contain the ':' separator, cluster
+ * hash tag braces or SCAN wildcards. '/' is kept for readability.
+ */
+export function encodeKeySegment(value: string): string {
+  return encodeURIComponent(value).replace(/%2F/g, '/').replace(/\*/g, '%2A');
+}
+
 /**
- * Get cache key with repository context to avoid collisions
+ * Get the values available to scope templates
  */
-export function getCacheKey(baseKey: string): string {
+function getScopeVariables(): Record<string, string> {
   const repo = process.env.GITHUB_REPOSITORY || 'unknown';
-  const runId = process.env.GITHUB_RUN_ID || 'local';
+  let server = 'github.com';
+  try {
+    server = new URL(process.env.GITHUB_SERVER_URL || '').host || server;
+  } catch {
+    // Not running in Actions - assume github.com
+  }
+
+  return {
+    server,
+    owner: process.env.GITHUB_REPOSITORY_OWNER || repo.split('/')[0],
+    repo,
+  };
+}
 
-  // Include repo to avoid cross-repository cache collisions
-  return `${repo}:${baseKey}`;
+/**
+ * Get the scope cache keys are grouped under
+ * The template may use {server}, {owner} and {repo} (owner/name), e.g.
+ * '{server}/{owner}' to share caches across an organization or 'global' to
+ * share them with every repository using the same server.
+ * @param template - Scope template (defaults to the repository)
+ */
+export function getCacheScope(
+  template: string = DEFAULT_SCOPE_TEMPLATE
+): string {
+  const variables = getScopeVariables();
+
+  const scope = template.trim().replace(/\{([^}]*)\}/g, (match, name) => {
+    if (!(name in variables)) {
+      throw new Error(
+        `Invalid scope "${template}": unknown variable ${match} (use {server}, {owner} or {repo})`
+      );
+    }
+    return variables[name];
+  });
+
+  if (!scope) {
+    throw new Error(`Invalid scope "${template}": scope must not be empty`);
+  }
+
+  return encodeKeySegment(scope);
+}
+
+/**
+ * Get the ref the current run saves caches under
+ */
+export function getCacheRef(): string {
+  return process.env.GITHUB_REF || 'local';
+}
+
+/**
+ * Read the payload of the event that triggered the workflow
+ * Returns null outside of Actions or if the payload can't be read
+ */
+export function readEventPayload(): EventPayload | null {
+  const eventPath = process.env.GITHUB_EVENT_PATH;
+  if (!eventPath) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(eventPath, 'utf8')) as EventPayload;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    core.debug(`Could not read event payload: ${errorMsg}`);
+    return null;
+  }
+}
+
+/**
+ * Get the repository's default branch from the workflow event payload
+ * Returns null if the payload is unavailable or doesn't name it
+ */
+function getDefaultBranch(): string | null {
+  return readEventPayload()?.repository?.default_branch || null;
+}
+
+/**
+ * Get the refs whose caches the current run may restore, in search order:
+ * the current ref, the pull request's base branch, then the default branch
+ */
+export function getRestoreRefs(): string[] {
+  const refs = [getCacheRef()];
+
+  const baseRef = process.env.GITHUB_BASE_REF;
+  if (baseRef) {
+    refs.push(`refs/heads/${baseRef}`);
+  }
+
+  const defaultBranch = getDefaultBranch();
+  if (defaultBranch) {
+    refs.push(`refs/heads/${defaultBranch}`);
+  }
+
+  return [...new Set(refs)];
+}
+
+/**
+ * Get the prefix shared by all full keys of a scope and ref
+ * An empty ref gives the unscoped prefix used before keys were scoped by ref
+ * Both parts are encoded, so the prefix ends at a known ':' whatever the
+ * cache key itself contains and can simply be sliced off a full key.
+ */
+export function getCacheKeyPrefix(
+  scope: string = getCacheScope(),
+  ref: string = getCacheRef()
+): string {
+  return ref ? `${scope}:${encodeKeySegment(ref)}:` : `${scope}:`;
+}
+
+/**
+ * Get cache key with scope context to avoid collisions
+ * @param scope - Encoded scope (see getCacheScope)
+ * @param ref - Ref to scope the key to (defaults to the current ref)
+ */
+export function getCacheKey(
+  baseKey: string,
+  scope: string = getCacheScope(),
+  ref: string = getCacheRef()
+): string {
+  // Include the scope to avoid cross-repository cache collisions, and the ref
+  // so branches and pull requests never overwrite each other's caches
+  return `${getCacheKeyPrefix(scope, ref)}${baseKey}`;
 }
@@ -0,0 +1,168 @@
+/**
+ * Per-scope storage accounting and quotas
+ *
+ * A usage hash per scope records the archive size of every saved entry and
+ * keeps a running total, both updated in one script so concurrent saves and
+ * deletes never lose an update. Scopes with a quota evict their oldest
+ * entries (by save time, from the entry index) until the total fits again,
+ * instead of leaving it to Redis to evict other scopes' entries.
+ *
+ * Entries that expire on their own are only dropped from the usage hash once
+ * an eviction pass comes across them, so the total may briefly overstate
+ * what is actually stored.
+ */
+
+import * as core from '@actions/core';
+import {getEntryKeys, getIndexKey, getUsageKey} from './keys';
+import {deleteEntry, entryExists, extendExpiry} from './storage';
+import {RedisClient} from './types';
+
+const USAGE_TOTAL_FIELD = 'total';
+const EVICTION_BATCH_SIZE = 100;
+
+// Set (or with size 0, remove) an entry's size and adjust the total by the
+// difference. Returns the new total and whether the hash existed before.
+const RECORD_USAGE_SCRIPT = `
+local existed = redis.call('exists', KEYS[1])
+local previous = tonumber(redis.call('hget', KEYS[1], ARGV[1]) or '0')
+local size = tonumber(ARGV[2])
+if size > 0 then
+  redis.call('hset', KEYS[1], ARGV[1], size)
+else
+  redis.call('hdel', KEYS[1], ARGV[1])
+end
+local total = redis.call('hincrby', KEYS[1], '${USAGE_TOTAL_FIELD}', size - previous)
+return {total, existed}`;
+
+export interface QuotaEnforcement {
+  /**
+   * Full keys of the entries that were deleted
+   */
+  evicted: string[];
+
+  /**
+   * Bytes removed from the usage total, including entries that had
+   * already expired
+   */
+  freedBytes: number;
+
+  /**
+   * Usage total after eviction
+   */
+  usage: number;
+}
+
+/**
+ * Record the archive size of an entry in its scope's usage
+ * Returns the scope's new usage total
+ * @param bytes - Archive size, or 0 when the entry was deleted
+ * @param ttl - Expiry for the usage hash when saving; it lives as long as
+ *   the longest-lived entry, and never expires once it tracks a pinned
+ *   entry (null). Left alone when undefined.
+ */
+export async function recordUsage(
+  redis: RedisClient,
+  scope: string,
+  fullKey: string,
+  bytes: number,
+  ttl?: number | null
+): Promise<number> {
+  const usageKey = getUsageKey(scope);
+  const [total, existed] = (await redis.eval(
+    RECORD_USAGE_SCRIPT,
+    1,
+    usageKey,
+    fullKey,
+    bytes
+  )) as [number, number];
+
+  if (ttl === null) {
+    await redis.persist(usageKey);
+  } else if (ttl !== undefined) {
+    if (existed === 1) {
+      await extendExpiry(redis, usageKey, ttl);
+    } else {
+      await redis.expire(usageKey, ttl);
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Get the total archive size stored in a scope
+ */
+export async function getUsage(
+  redis: RedisClient,
+  scope: string
+): Promise<number> {
+  const total = await redis.hget(getUsageKey(scope), USAGE_TOTAL_FIELD);
+  return total ? parseInt(total, 10) : 0;
+}
+
+/**
+ * Delete a scope's oldest entries until its usage fits within a quota
+ * Pinned entries are never evicted.
+ * @param keep - Full key of an entry that must not be evicted (the one
+ *   just saved)
+ */
+export async function enforceQuota(
+  redis: RedisClient,
+  scope: string,
+  quotaBytes: number,
+  keep?: string
+): Promise<QuotaEnforcement> {
+  const indexKey = getIndexKey(scope);
+  const result: QuotaEnforcement = {
+    evicted: [],
+    freedBytes: 0,
+    usage: await getUsage(redis, scope),
+  };
+  let start = 0;
+
+  while (result.usage > quotaBytes) {
+    // Oldest first
+    const members = await redis.zrange(
+      indexKey,
+      start,
+      start + EVICTION_BATCH_SIZE - 1
+    );
+    if (members.length === 0) {
+      break;
+    }
+
+    let removed = 0;
+    for (const member of members) {
+      if (result.usage <= quotaBytes) {
+        break;
+      }
+      if (member === keep) {
+        continue;
+      }
+
+      if (await entryExists(redis, member)) {
+        const entryKey = getEntryKeys(member, redis.isCluster).entry;
+        if ((await redis.ttl(entryKey)) === -1) {
+          core.debug(`  Not evicting pinned entry: ${member}`);
+          continue;
+        }
+
+        await deleteEntry(redis, member);
+        result.evicted.push(member);
+      } else {
+        core.debug(`  Dropping expired entry from usage: ${member}`);
+      }
+
+      const usage = await recordUsage(redis, scope, member, 0);
+      result.freedBytes += result.usage - usage;
+      result.usage = usage;
+      await redis.zrem(indexKey, member);
+      removed++;
+    }
+
+    // Removed members shift the remaining ones towards the start
+    start += members.length - removed;
+  }
+
+  return result;
+}
@@ -0,0 +1,1020 @@
+/**
+ * Chunked cache entry storage
+ *
+ * Redis strings are limited to 512MB, so archives are split into fixed-size
+ * chunk keys and described by a manifest hash under the entry key. Archives
+ * are streamed into chunks as they are produced and streamed back out on
+ * restore. The manifest is written last, so readers never see a partially
+ * uploaded entry.
+ *
+ * Optionally, archives are split with content-defined chunking and each chunk
+ * is stored once under its hash, so entries with mostly identical archives
+ * share chunks and a save only uploads the chunks that are new.
+ */
+
+import * as core from '@actions/core';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {Readable, Transform, Writable} from 'stream';
+import {finished, pipeline} from 'stream/promises';
+import {CDC_MAX_CHUNK_SIZE, ContentDefinedChunker} from './chunker';
+import {
+  EntryKeys,
+  getContentChunkKey,
+  getEntryKeys,
+  getFingerprintKey,
+} from './keys';
+import {CacheManifest, CacheMetadata, RedisClient} from './types';
+import {formatBytes} from '../utils';
+
+export const MANIFEST_VERSION = 1;
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024; // 8MB per chunk key
+
+/**
+ * Read the manifest of a cache entry
+ * Returns null if the entry does not exist or is not a chunked entry
+ */
+export async function readManifest(
+  redis: RedisClient,
+  fullKey: string
+): Promise<CacheManifest | null> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  const type = await redis.type(keys.entry);
+
+  if (type !== 'hash') {
+    return null;
+  }
+
+  const fields = await redis.hgetall(keys.entry);
+  if (!fields.saveId) {
+    return null;
+  }
+
+  const manifest: CacheManifest = {
+    version: parseInt(fields.version, 10),
+    saveId: fields.saveId,
+    size: parseInt(fields.size, 10),
+    chunkSize: parseInt(fields.chunkSize, 10),
+    chunkCount: parseInt(fields.chunkCount, 10),
+    // Entries saved before content-defined chunking have no layout field
+    layout: fields.layout === 'content' ? 'content' : 'fixed',
+  };
+
+  if (fields.sha256) {
+    manifest.sha256 = fields.sha256;
+  }
+
+  if (manifest.layout === 'content') {
+    manifest.chunkHashes = fields.chunkHashes
+      ? fields.chunkHashes.split(',')
+      : [];
+    manifest.chunkScope = fields.chunkScope;
+  }
+
+  return manifest;
+}
+
+/**
+ * Flatten a manifest into hash fields
+ */
+function serializeManifest(manifest: CacheManifest): Record<string, string> {
+  const fields: Record<string, string> = {
+    version: manifest.version.toString(),
+    saveId: manifest.saveId,
+    size: manifest.size.toString(),
+    chunkSize: manifest.chunkSize.toString(),
+    chunkCount: manifest.chunkCount.toString(),
+    layout: manifest.layout,
+  };
+
+  if (manifest.sha256) {
+    fields.sha256 = manifest.sha256;
+  }
+
+  if (manifest.layout === 'content') {
+    fields.chunkHashes = (manifest.chunkHashes || []).join(',');
+    fields.chunkScope = manifest.chunkScope || '';
+  }
+
+  return fields;
+}
+
+/**
+ * Get the keys of an entry's chunks, in archive order
+ */
+function getChunkKeys(keys: EntryKeys, manifest: CacheManifest): string[] {
+  if (manifest.layout === 'content') {
+    return (manifest.chunkHashes || []).map(hash =>
+      getContentChunkKey(manifest.chunkScope || '', hash)
+    );
+  }
+
+  return Array.from({length: manifest.chunkCount}, (_, i) =>
+    keys.chunk(manifest.saveId, i)
+  );
+}
+
+/**
+ * Check whether a cache entry exists
+ */
+export async function entryExists(
+  redis: RedisClient,
+  fullKey: string
+): Promise<boolean> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  return (await redis.exists(keys.entry)) === 1;
+}
+
+/**
+ * Make a key live for at least ttl more seconds
+ * A longer remaining TTL, or no expiry at all, is left alone, so keys shared
+ * between entries saved with different TTLs live as long as the longest-lived
+ * of them. Returns false if the key does not exist.
+ */
+export async function extendExpiry(
+  redis: RedisClient,
+  key: string,
+  ttl: number
+): Promise<boolean> {
+  const current = await redis.ttl(key);
+  if (current === -2) {
+    return false;
+  }
+  if (current >= 0 && current < ttl) {
+    return (await redis.expire(key, ttl)) === 1;
+  }
+  return true;
+}
+
+/**
+ * Count how many chunk keys referenced by a manifest still exist
+ */
+async function countChunks(
+  redis: RedisClient,
+  fullKey: string,
+  manifest: CacheManifest
+): Promise<number> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  const chunkKeys = getChunkKeys(keys, manifest);
+
+  if (manifest.layout === 'content') {
+    // Shared chunks live in different cluster slots - check them one by one
+    const counts = await Promise.all(chunkKeys.map(key => redis.exists(key)));
+    return counts.reduce((total, count) => total + count, 0);
+  }
+
+  return redis.exists(...chunkKeys);
+}
+
+/**
+ * Verify that an entry's manifest and every chunk it references are present
+ */
+export async function verifyEntry(
+  redis: RedisClient,
+  fullKey: string
+): Promise<boolean> {
+  const manifest = await readManifest(redis, fullKey);
+  if (!manifest) {
+    return false;
+  }
+  return (await countChunks(redis, fullKey, manifest)) === manifest.chunkCount;
+}
+
+/**
+ * Delete the chunk keys written by a save
+ */
+async function deleteChunks(
+  redis: RedisClient,
+  fullKey: string,
+  saveId: string,
+  chunkCount: number
+): Promise<void> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  for (let i = 0; i < chunkCount; i++) {
+    await redis.del(keys.chunk(saveId, i));
+  }
+}
+
+export interface EntryWriteOptions {
+  /**
+   * Maximum size of each chunk key in bytes
+   */
+  chunkSize?: number;
+
+  /**
+   * Abort the upload once the archive grows beyond this many bytes
+   */
+  maxSize?: number;
+
+  /**
+   * Split the archive with content-defined chunking and store each chunk once
+   * under its hash in this scope, so chunks are shared between entries
+   */
+  dedupScope?: string;
+}
+
+/**
+ * Writable stream that uploads everything written to it as a chunked cache entry
+ * At most one chunk is buffered at a time, so memory use does not grow with
+ * the archive size. The manifest is committed when the stream finishes; if the
+ * stream is destroyed before that, any chunks already uploaded are removed.
+ *
+ * With a dedup scope, chunk boundaries are content-defined and chunks that are
+ * already stored are only refreshed instead of uploaded again. Shared chunks
+ * may be referenced by other entries, so they are left to expire rather than
+ * deleted on abort or replacement.
+ */
+export class EntryWriteStream extends Writable {
+  /**
+   * Manifest of the committed entry, set once the stream has finished
+   */
+  manifest: CacheManifest | null = null;
+
+  private readonly keys: EntryKeys;
+  private readonly saveId: string;
+  private readonly chunkSize: number;
+  private readonly maxSize: number;
+  private readonly dedupScope?: string;
+  private readonly chunker?: ContentDefinedChunker;
+  private readonly hash = crypto.createHash('sha256');
+  private buffered: Buffer[] = [];
+  private bufferedBytes = 0;
+  private chunkCount = 0;
+  private chunkHashes: string[] = [];
+  private size = 0;
+  private reused = 0;
+  private uploaded = 0;
+
+  constructor(
+    private readonly redis: RedisClient,
+    private readonly fullKey: string,
+    private readonly ttl: number,
+    options: EntryWriteOptions = {}
+  ) {
+    super();
+    this.keys = getEntryKeys(fullKey, redis.isCluster);
+    this.saveId = `${Date.now().toString(36)}-${crypto.randomBytes(4).toString('hex')}`;
+    this.chunkSize = options.chunkSize || DEFAULT_CHUNK_SIZE;
+    this.maxSize = options.maxSize || Infinity;
+    this.dedupScope = options.dedupScope;
+
+    if (this.dedupScope) {
+      this.chunker = new ContentDefinedChunker();
+      core.debug(
+        `Streaming entry ${fullKey} in content-defined chunks shared in scope ${this.dedupScope}`
+      );
+    } else {
+      core.debug(
+        `Streaming entry ${fullKey} in chunks of up to ${formatBytes(this.chunkSize)}`
+      );
+    }
+    core.debug(`  Save id: ${this.saveId}`);
+  }
+
+  /**
+   * Number of bytes written to the stream so far
+   */
+  get bytesWritten(): number {
+    return this.size;
+  }
+
+  /**
+   * Number of chunks that were already stored and not uploaded again
+   */
+  get reusedChunks(): number {
+    return this.reused;
+  }
+
+  /**
+   * Number of archive bytes actually sent to Redis
+   */
+  get bytesUploaded(): number {
+    return this.uploaded;
+  }
+
+  _write(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: (error?: Error | null) => void
+  ): void {
+    this.size += chunk.length;
+
+    if (this.size > this.maxSize) {
+      callback(
+        new Error(
+          `Cache size exceeds configured maximum of ${formatBytes(this.maxSize)}`
+        )
+      );
+      return;
+    }
+
+    this.hash.update(chunk);
+
+    if (this.chunker) {
+      this.uploadChunks(this.chunker.push(chunk)).then(
+        () => callback(),
+        callback
+      );
+      return;
+    }
+
+    this.buffered.push(chunk);
+    this.bufferedBytes += chunk.length;
+
+    this.flushFullChunks().then(() => callback(), callback);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    this.commit().then(() => callback(), callback);
+  }
+
+  _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void
+  ): void {
+    if (this.manifest || this.chunker) {
+      callback(error);
+      return;
+    }
+
+    core.debug(
+      `Upload aborted - removing ${this.chunkCount} partially written chunk(s)`
+    );
+    deleteChunks(this.redis, this.fullKey, this.saveId, this.chunkCount)
+      .catch(() => undefined)
+      .then(() => callback(error));
+  }
+
+  /**
+   * Abort the upload and wait until partially written chunks are removed
+   */
+  async abort(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    const closed = new Promise<void>(resolve => this.once('close', resolve));
+    this.destroy();
+    await closed;
+  }
+
+  private async flushFullChunks(): Promise<void> {
+    while (this.bufferedBytes >= this.chunkSize) {
+      const data = Buffer.concat(this.buffered, this.bufferedBytes);
+      await this.uploadChunk(data.subarray(0, this.chunkSize));
+
+      // Copy the remainder so the concatenated buffer can be released
+      const rest = Buffer.from(data.subarray(this.chunkSize));
+      this.buffered = rest.length > 0 ? [rest] : [];
+      this.bufferedBytes = rest.length;
+    }
+  }
+
+  private async uploadChunks(chunks: Buffer[]): Promise<void> {
+    for (const chunk of chunks) {
+      await this.uploadChunk(chunk);
+    }
+  }
+
+  private async uploadChunk(data: Buffer): Promise<void> {
+    const index = this.chunkCount;
+
+    if (this.dedupScope) {
+      const hash = crypto.createHash('sha256').update(data).digest('hex');
+      const key = getContentChunkKey(this.dedupScope, hash);
+
+      // Extending the TTL doubles as the existence check
+      if (await extendExpiry(this.redis, key, this.ttl)) {
+        this.reused++;
+        core.debug(
+          `  Chunk ${index + 1}: ${formatBytes(data.length)} (reused)`
+        );
+      } else {
+        await this.redis.setex(key, this.ttl, data);
+        this.uploaded += data.length;
+        core.debug(`  Chunk ${index + 1}: ${formatBytes(data.length)}`);
+      }
+
+      this.chunkHashes.push(hash);
+      this.chunkCount++;
+      return;
+    }
+
+    await this.redis.setex(this.keys.chunk(this.saveId, index), this.ttl, data);
+    this.uploaded += data.length;
+    this.chunkCount++;
+    core.debug(`  Chunk ${index + 1}: ${formatBytes(data.length)}`);
+  }
+
+  private async commit(): Promise<void> {
+    if (this.chunker) {
+      const last = this.chunker.flush();
+      if (last) {
+        await this.uploadChunk(last);
+      }
+    } else if (this.bufferedBytes > 0 || this.chunkCount === 0) {
+      await this.uploadChunk(Buffer.concat(this.buffered, this.bufferedBytes));
+      this.buffered = [];
+      this.bufferedBytes = 0;
+    }
+
+    const manifest: CacheManifest = {
+      version: MANIFEST_VERSION,
+      saveId: this.saveId,
+      size: this.size,
+      chunkSize: this.chunker ? CDC_MAX_CHUNK_SIZE : this.chunkSize,
+      chunkCount: this.chunkCount,
+      layout: this.dedupScope ? 'content' : 'fixed',
+      sha256: this.hash.digest('hex'),
+    };
+
+    if (this.dedupScope) {
+      manifest.chunkHashes = this.chunkHashes;
+      manifest.chunkScope = this.dedupScope;
+    }
+
+    await this.writeManifest(manifest);
+  }
+
+  /**
+   * Commit a copy of another entry instead of anything written to the stream
+   * A deduplicated source's shared chunks are listed by the new manifest and
+   * kept alive for at least its TTL; other chunks are duplicated with COPY.
+   * Either way the archive never leaves the server. The source must not be
+   * in another cluster slot than this entry unless it is deduplicated.
+   */
+  async commitCopy(
+    sourceFullKey: string,
+    source: CacheManifest
+  ): Promise<void> {
+    const sourceKeys = getEntryKeys(sourceFullKey, this.redis.isCluster);
+
+    if (source.layout === 'content') {
+      for (const key of getChunkKeys(sourceKeys, source)) {
+        if (!(await extendExpiry(this.redis, key, this.ttl))) {
+          throw new Error(
+            `Cache entry ${sourceFullKey} is incomplete - a shared chunk expired during the copy`
+          );
+        }
+      }
+    } else {
+      let copied = 0;
+      try {
+        for (; copied < source.chunkCount; copied++) {
+          const target = this.keys.chunk(this.saveId, copied);
+          const result = await this.redis.copy(
+            sourceKeys.chunk(source.saveId, copied),
+            target,
+            'REPLACE'
+          );
+          if (result !== 1) {
+            throw new Error(
+              `Cache entry ${sourceFullKey} is incomplete - chunk ${copied + 1}/${source.chunkCount} disappeared during the copy`
+            );
+          }
+          // COPY keeps the source's expiry
+          await this.redis.expire(target, this.ttl);
+        }
+      } catch (error) {
+        await deleteChunks(this.redis, this.fullKey, this.saveId, copied + 1);
+        throw error;
+      }
+    }
+
+    this.size = source.size;
+    this.reused = source.chunkCount;
+    await this.writeManifest({
+      ...source,
+      version: MANIFEST_VERSION,
+      saveId: this.saveId,
+    });
+  }
+
+  /**
+   * Replace the entry's manifest and remove the chunks of the entry it replaces
+   */
+  private async writeManifest(manifest: CacheManifest): Promise<void> {
+    const previous = await readManifest(this.redis, this.fullKey);
+
+    // Replace the entry atomically so readers see either the old or new manifest
+    // Metadata of the replaced entry no longer applies and is dropped with it
+    await this.redis
+      .multi()
+      .del(this.keys.meta)
+      .del(this.keys.entry)
+      .hset(this.keys.entry, serializeManifest(manifest))
+      .expire(this.keys.entry, this.ttl)
+      .exec();
+    this.manifest = manifest;
+
+    // Chunks of a replaced entry are no longer referenced, unless shared
+    if (
+      previous &&
+      previous.layout === 'fixed' &&
+      previous.saveId !== this.saveId
+    ) {
+      core.debug(`Removing ${previous.chunkCount} chunk(s) of replaced entry`);
+      await deleteChunks(
+        this.redis,
+        this.fullKey,
+        previous.saveId,
+        previous.chunkCount
+      );
+    }
+  }
+}
+
+/**
+ * Upload an archive file as a chunked cache entry
+ * Used for compression handlers that can only write to a file
+ */
+export async function writeEntry(
+  redis: RedisClient,
+  fullKey: string,
+  archivePath: string,
+  ttl: number,
+  options: EntryWriteOptions = {}
+): Promise<CacheManifest> {
+  const writer = new EntryWriteStream(redis, fullKey, ttl, options);
+  await pipeline(fs.createReadStream(archivePath), writer);
+  return writer.manifest as CacheManifest;
+}
+
+/**
+ * Store the metadata record of a cache entry
+ */
+export async function writeMetadata(
+  redis: RedisClient,
+  fullKey: string,
+  metadata: CacheMetadata,
+  ttl: number
+): Promise<void> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+
+  await redis
+    .multi()
+    .del(keys.meta)
+    .hset(keys.meta, {
+      ...metadata,
+      paths: JSON.stringify(metadata.paths),
+    })
+    .expire(keys.meta, ttl)
+    .exec();
+}
+
+/**
+ * Read the metadata record of a cache entry
+ * Returns null for entries saved without metadata
+ */
+export async function readMetadata(
+  redis: RedisClient,
+  fullKey: string
+): Promise<CacheMetadata | null> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  const fields = await redis.hgetall(keys.meta);
+
+  if (!fields.createdAt) {
+    return null;
+  }
+
+  let paths: string[] = [];
+  try {
+    paths = JSON.parse(fields.paths || '[]');
+  } catch {
+    core.debug(`  Unreadable paths in metadata of ${fullKey}`);
+  }
+
+  return {
+    key: fields.key || '',
+    format: fields.format || '',
+    compressionLevel: parseInt(fields.compressionLevel, 10) || 0,
+    archiveSize: parseInt(fields.archiveSize, 10) || 0,
+    uncompressedSize: parseInt(fields.uncompressedSize, 10) || 0,
+    fileCount: parseInt(fields.fileCount, 10) || 0,
+    paths,
+    createdAt: fields.createdAt,
+    commitSha: fields.commitSha || '',
+    ref: fields.ref || '',
+    workflow: fields.workflow || '',
+    runId: fields.runId || '',
+    runnerOs: fields.runnerOs || '',
+    fingerprint: fields.fingerprint || '',
+  };
+}
+
+export interface OpenEntry {
+  /**
+   * Total archive size in bytes
+   */
+  size: number;
+
+  /**
+   * Archive bytes, fetched from Redis piece by piece as the stream is consumed
+   */
+  stream: Readable;
+
+  /**
+   * Expected SHA-256 of the archive (undefined for entries saved without one)
+   */
+  sha256?: string;
+}
+
+/**
+ * Yield the chunks of a chunked entry in order
+ */
+async function* readChunks(
+  redis: RedisClient,
+  keys: EntryKeys,
+  manifest: CacheManifest
+): AsyncGenerator<Buffer> {
+  const chunkKeys = getChunkKeys(keys, manifest);
+  let bytesRead = 0;
+
+  for (let i = 0; i < chunkKeys.length; i++) {
+    const chunk = await redis.getBuffer(chunkKeys[i]);
+    if (!chunk) {
+      throw new Error(
+        `Cache entry is incomplete - chunk ${i + 1}/${manifest.chunkCount} disappeared during restore`
+      );
+    }
+    bytesRead += chunk.length;
+    core.debug(
+      `  Chunk ${i + 1}/${manifest.chunkCount}: ${formatBytes(chunk.length)}`
+    );
+    yield chunk;
+  }
+
+  if (bytesRead !== manifest.size) {
+    throw new Error(
+      `Cache entry size mismatch - expected ${manifest.size} bytes, got ${bytesRead}`
+    );
+  }
+}
+
+/**
+ * Yield a legacy single-key entry in ranges with GETRANGE
+ */
+async function* readRanges(
+  redis: RedisClient,
+  key: string,
+  size: number,
+  rangeSize: number
+): AsyncGenerator<Buffer> {
+  for (let start = 0; start < size; start += rangeSize) {
+    const end = Math.min(start + rangeSize, size) - 1;
+    const range = await redis.getrangeBuffer(key, start, end);
+    if (range.length !== end - start + 1) {
+      throw new Error(
+        'Cache entry changed or disappeared during restore (legacy entry)'
+      );
+    }
+    yield range;
+  }
+}
+
+/**
+ * Read the first bytes of a cache entry's archive
+ * Used to detect the archive format before extraction
+ * Returns null if the entry does not exist
+ */
+export async function readEntryHeader(
+  redis: RedisClient,
+  fullKey: string,
+  length: number
+): Promise<Buffer | null> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  const type = await redis.type(keys.entry);
+
+  if (type === 'string') {
+    return redis.getrangeBuffer(keys.entry, 0, length - 1);
+  }
+
+  const manifest = await readManifest(redis, fullKey);
+  if (!manifest) {
+    return null;
+  }
+
+  const [firstChunk] = getChunkKeys(keys, manifest);
+  if (!firstChunk) {
+    return Buffer.alloc(0);
+  }
+
+  return redis.getrangeBuffer(firstChunk, 0, length - 1);
+}
+
+/**
+ * Open a cache entry for streaming
+ * Supports both chunked entries and legacy single-string entries. Chunk
+ * presence is checked up front, so an evicted chunk is reported as a miss
+ * (null) instead of failing halfway through extraction.
+ */
+export async function openEntry(
+  redis: RedisClient,
+  fullKey: string,
+  rangeSize: number = DEFAULT_CHUNK_SIZE
+): Promise<OpenEntry | null> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  const type = await redis.type(keys.entry);
+
+  // Buffer at most one piece ahead of the consumer
+  const streamOptions = {objectMode: false, highWaterMark: 1};
+
+  if (type === 'none') {
+    return null;
+  }
+
+  if (type === 'string') {
+    // Entries saved before chunked storage hold the whole archive
+    const size = await redis.strlen(keys.entry);
+    core.debug(
+      `Reading legacy single-key cache entry (${formatBytes(size)}) in ranges`
+    );
+    return {
+      size,
+      stream: Readable.from(
+        readRanges(redis, keys.entry, size, rangeSize),
+        streamOptions
+      ),
+    };
+  }
+
+  const manifest = await readManifest(redis, fullKey);
+  if (!manifest) {
+    core.warning(`Cache entry ${fullKey} has an unreadable manifest`);
+    return null;
+  }
+
+  const present = await countChunks(redis, fullKey, manifest);
+  if (present !== manifest.chunkCount) {
+    core.warning(
+      `Cache entry is incomplete - ${manifest.chunkCount - present}/${manifest.chunkCount} chunk(s) are missing (evicted?)`
+    );
+    return null;
+  }
+
+  core.debug(
+    `Reading ${formatBytes(manifest.size)} from ${manifest.chunkCount} chunk(s)`
+  );
+
+  return {
+    size: manifest.size,
+    stream: Readable.from(readChunks(redis, keys, manifest), streamOptions),
+    sha256: manifest.sha256,
+  };
+}
+
+/**
+ * Write an opened entry's archive to a file
+ * Returns the SHA-256 of the bytes written, hex encoded
+ */
+export async function downloadEntry(
+  entry: OpenEntry,
+  outputFile: string
+): Promise<string> {
+  const hash = crypto.createHash('sha256');
+
+  await pipeline(
+    entry.stream,
+    async function* (source: AsyncIterable<Buffer>) {
+      for await (const chunk of source) {
+        hash.update(chunk);
+        yield chunk;
+      }
+    },
+    fs.createWriteStream(outputFile)
+  );
+
+  return hash.digest('hex');
+}
+
+/**
+ * Hand an opened entry's archive to a consumer, such as an extractor
+ * Returns the SHA-256 of the whole archive, hex encoded. Corrupt data often
+ * makes the consumer fail before the end of the archive, so the rest is still
+ * read: if the checksum differs from the entry's, it is returned instead of
+ * the consumer's error. Missing chunks and other failures are thrown.
+ */
+export async function consumeEntry(
+  entry: OpenEntry,
+  consume: (input: Readable) => Promise<void>
+): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  const input = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      callback(null, chunk);
+    },
+  });
+  let readError: Error | undefined;
+  entry.stream.on('error', error => {
+    readError = error;
+    input.destroy(error);
+  });
+  entry.stream.pipe(input);
+
+  let failure: unknown;
+  try {
+    await consume(input);
+  } catch (error) {
+    // Missing chunks fail the input itself
+    if (readError) {
+      throw error;
+    }
+    failure = error;
+  }
+
+  // Read whatever the consumer left, so the checksum covers the whole archive
+  try {
+    input.resume();
+    await finished(input);
+  } catch (error) {
+    throw failure ?? error;
+  }
+
+  const sha256 = hash.digest('hex');
+  if (failure !== undefined && sha256 === entry.sha256) {
+    // The archive is intact - the consumer failed for another reason
+    throw failure;
+  }
+  return sha256;
+}
+
+/**
+ * Copy the archive of a cache entry into a new entry
+ * The archive is never decompressed or compressed again. Deduplicated entries
+ * are copied by listing the same shared chunks, and other chunked entries by
+ * copying their chunks inside Redis (the copy keeps the source's checksum, so
+ * restoring it still verifies the archive). Legacy entries, entries in
+ * another cluster slot and servers without COPY (before Redis 6.2) fall back
+ * to streaming the archive through the writer, checking its checksum on the
+ * way so a corrupt entry is never copied. Returns false, leaving the writer
+ * untouched, if the source is missing or incomplete.
+ */
+export async function copyEntry(
+  redis: RedisClient,
+  sourceFullKey: string,
+  writer: EntryWriteStream
+): Promise<boolean> {
+  const manifest = await readManifest(redis, sourceFullKey);
+  if (manifest) {
+    if (
+      (await countChunks(redis, sourceFullKey, manifest)) !==
+      manifest.chunkCount
+    ) {
+      return false;
+    }
+
+    // Chunks of another entry hash to another cluster slot
+    if (manifest.layout === 'content' || !redis.isCluster) {
+      try {
+        await writer.commitCopy(sourceFullKey, manifest);
+        return true;
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        if (!errorMsg.toLowerCase().includes('unknown command')) {
+          throw error;
+        }
+        core.debug('  COPY is not supported by the server - streaming instead');
+      }
+    }
+  }
+
+  const entry = await openEntry(redis, sourceFullKey);
+  if (!entry) {
+    return false;
+  }
+
+  const hash = crypto.createHash('sha256');
+
+  await pipeline(
+    entry.stream,
+    async function* (source: AsyncIterable<Buffer>) {
+      for await (const chunk of source) {
+        hash.update(chunk);
+        yield chunk;
+      }
+      // Failing before the writer finishes keeps its manifest from being written
+      if (entry.sha256 && hash.digest('hex') !== entry.sha256) {
+        throw new Error(
+          `Cache entry ${sourceFullKey} failed its integrity check`
+        );
+      }
+    },
+    writer
+  );
+
+  return true;
+}
+
+/**
+ * Delete a cache entry with its manifest, metadata and own chunks
+ * Shared chunks of deduplicated entries are left to expire, since other
+ * entries may reference them.
+ */
+export async function deleteEntry(
+  redis: RedisClient,
+  fullKey: string
+): Promise<void> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  const manifest = await readManifest(redis, fullKey);
+
+  await redis.multi().del(keys.entry).del(keys.meta).exec();
+
+  if (manifest && manifest.layout === 'fixed') {
+    await deleteChunks(redis, fullKey, manifest.saveId, manifest.chunkCount);
+  }
+}
+
+/**
+ * Extend the expiry of a cache entry, its metadata and the chunks it lists
+ * to at least ttl seconds. Shared chunks of deduplicated entries are refreshed
+ * as well, so an entry that keeps being restored never loses a chunk to expiry,
+ * and so is its fingerprint record while it still points at the entry.
+ * Returns false if the entry no longer exists
+ * @param scope - Scope the entry's fingerprint was recorded in
+ */
+export async function refreshEntry(
+  redis: RedisClient,
+  fullKey: string,
+  ttl: number,
+  scope: string
+): Promise<boolean> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  const current = await redis.ttl(keys.entry);
+
+  if (current === -2) {
+    return false;
+  }
+  if (current === -1 || current >= ttl) {
+    // Pinned entries never expire, and a longer TTL is never shortened
+    return true;
+  }
+
+  const manifest = await readManifest(redis, fullKey);
+  const tx = redis.multi().expire(keys.entry, ttl).expire(keys.meta, ttl);
+  const chunkKeys = manifest ? getChunkKeys(keys, manifest) : [];
+
+  if (manifest && manifest.layout === 'content') {
+    await tx.exec();
+    // Shared chunks live in different cluster slots - refresh them one by one
+    await Promise.all(chunkKeys.map(key => extendExpiry(redis, key, ttl)));
+  } else {
+    chunkKeys.forEach(key => tx.expire(key, ttl));
+    await tx.exec();
+  }
+
+  // A later save of the same files may have recorded the fingerprint for
+  // its own entry - that record expires with the newer entry instead
+  const metadata = await readMetadata(redis, fullKey);
+  if (metadata?.fingerprint) {
+    const fingerprintKey = getFingerprintKey(scope, metadata.fingerprint);
+    if ((await redis.get(fingerprintKey)) === fullKey) {
+      await extendExpiry(redis, fingerprintKey, ttl);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Remove the expiry of a cache entry, its metadata and the chunks it lists
+ * Pinned entries are uploaded with a TTL like any other entry, so an
+ * interrupted save still expires, and only pinned once committed.
+ */
+export async function persistEntry(
+  redis: RedisClient,
+  fullKey: string
+): Promise<void> {
+  const keys = getEntryKeys(fullKey, redis.isCluster);
+  const manifest = await readManifest(redis, fullKey);
+  const tx = redis.multi().persist(keys.entry).persist(keys.meta);
+  const chunkKeys = manifest ? getChunkKeys(keys, manifest) : [];
+
+  if (manifest && manifest.layout === 'content') {
+    await tx.exec();
+    // Shared chunks live in different cluster slots - persist them one by one
+    await Promise.all(chunkKeys.map(key => redis.persist(key)));
+  } else {
+    chunkKeys.forEach(key => tx.persist(key));
+    await tx.exec();
+  }
+}
+
+/**
+ * Download a cache entry into a file
+ * Used for compression handlers that can only extract from a file
+ * Returns the number of bytes written, or null if the entry is missing or incomplete
+ */
+export async function readEntry(
+  redis: RedisClient,
+  fullKey: string,
+  outputFile: string
+): Promise<number | null> {
+  const entry = await openEntry(redis, fullKey);
+  if (!entry) {
+    return null;
+  }
+
+  await pipeline(entry.stream, fs.createWriteStream(outputFile));
+  return entry.size;
+}
@@ -0,0 +1,152 @@
+/**
+ * Branch-aware TTL policies
+ *
+ * A policy is an ordered list of rules, one per line, matched against the
+ * workflow's ref and event name. The first matching rule decides how long a
+ * saved entry lives; when no rule matches, the plain `ttl` input applies.
+ *
+ *   ref:refs/heads/main = 30d
+ *   ref:refs/heads/release/* = pin
+ *   event:pull_request = 2d
+ *
+ * Conditions are `ref:<pattern>` or `event:<pattern>`, where `*` matches any
+ * run of characters (including '/'), or `*` alone to match everything.
+ * Several conditions separated by spaces must all match. A TTL is a number
+ * of seconds with an optional s/m/h/d unit, or `pin` for no expiry at all.
+ */
+
+export interface TtlRule {
+  /**
+   * The rule as written, for logs
+   */
+  source: string;
+
+  /**
+   * Patterns the ref and event name must match (absent = any)
+   */
+  ref?: RegExp;
+  event?: RegExp;
+
+  /**
+   * TTL in seconds, or null for pinned entries that never expire
+   */
+  ttl: number | null;
+}
+
+export interface TtlContext {
+  ref: string;
+  event: string;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 3600,
+  d: 86400,
+};
+
+/**
+ * Compile a '*' wildcard pattern into an anchored regular expression
+ */
+export function compilePattern(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Parse a TTL such as '3600', '12h', '30d' or 'pin'
+ * Returns null for 'pin'
+ */
+export function parseDuration(value: string): number | null {
+  if (value === 'pin') {
+    return null;
+  }
+
+  const match = /^(\d+)([smhd]?)$/.exec(value);
+  if (!match || parseInt(match[1], 10) <= 0) {
+    throw new Error(
+      `Invalid TTL "${value}": expected seconds, a duration such as 12h or 30d, or pin`
+    );
+  }
+
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2] || 's'];
+}
+
+/**
+ * Parse the ttl-policy input into ordered rules
+ * Blank lines and lines starting with '#' are ignored
+ */
+export function parseTtlPolicy(input: string): TtlRule[] {
+  const rules: TtlRule[] = [];
+
+  for (const line of input.split('\n')) {
+    const source = line.trim();
+    if (!source || source.startsWith('#')) {
+      continue;
+    }
+
+    const separator = source.lastIndexOf('=');
+    if (separator === -1) {
+      throw new Error(
+        `Invalid ttl-policy rule "${source}": expected <conditions> = <ttl>`
+      );
+    }
+
+    const rule: TtlRule = {
+      source,
+      ttl: parseDuration(source.slice(separator + 1).trim()),
+    };
+
+    const conditions = source.slice(0, separator).trim().split(/\s+/);
+    for (const condition of conditions) {
+      if (condition === '*') {
+        continue;
+      }
+
+      const colon = condition.indexOf(':');
+      const field = condition.slice(0, colon);
+      const pattern = condition.slice(colon + 1);
+
+      if (colon === -1 || !pattern || (field !== 'ref' && field !== 'event')) {
+        throw new Error(
+          `Invalid ttl-policy rule "${source}": conditions must be ref:<pattern>, event:<pattern> or *`
+        );
+      }
+      rule[field] = compilePattern(pattern);
+    }
+
+    rules.push(rule);
+  }
+
+  return rules;
+}
+
+/**
+ * Get the ref and event name of the current workflow run
+ */
+export function getTtlContext(): TtlContext {
+  return {
+    ref: process.env.GITHUB_REF || '',
+    event: process.env.GITHUB_EVENT_NAME || '',
+  };
+}
+
+/**
+ * Find the first rule matching a ref and event name
+ * Returns null if no rule matches
+ */
+export function resolveTtlRule(
+  rules: TtlRule[],
+  context: TtlContext
+): TtlRule | null {
+  return (
+    rules.find(
+      rule =>
+        (!rule.ref || rule.ref.test(context.ref)) &&
+        (!rule.event || rule.event.test(context.event))
+    ) || null
+  );
+}
@@ -2,11 +2,201 @@
  * Redis module types and interfaces
  */
 
+import {Cluster, Redis} from 'ioredis';
+
+/**
+ * Connected client - a single node or a cluster
+ */
+export type RedisClient = Redis | Cluster;
+
+export interface RedisNode {
+  host: string;
+  port: number;
+}
+
+export interface TlsConfig {
+  /**
+   * PEM-encoded CA bundle used to verify the server (system CAs when undefined)
+   */
+  ca?: string;
+
+  /**
+   * PEM-encoded client certificate for mutual TLS
+   */
+  cert?: string;
+
+  /**
+   * PEM-encoded client private key for mutual TLS
+   */
+  key?: string;
+
+  /**
+   * SNI server name (defaults to the connection host)
+   */
+  servername?: string;
+
+  /**
+   * Skip server certificate verification - for testing only
+   */
+  insecureSkipVerify?: boolean;
+}
+
 export interface CacheConfig {
   redisHost: string;
   redisPort: number;
   redisPassword?: string;
+  /**
+   * ACL username (Redis 6+ / Valkey); the default user when undefined
+   */
+  redisUsername?: string;
+  /**
+   * Logical database index (not supported in cluster mode)
+   */
+  redisDb?: number;
+  /**
+   * Seed nodes for Redis Cluster mode (standalone when empty)
+   */
+  clusterNodes?: RedisNode[];
+  /**
+   * Sentinel addresses for high-availability mode (standalone when empty)
+   */
+  sentinels?: RedisNode[];
+  /**
+   * Name of the master group monitored by the sentinels
+   */
+  sentinelMasterName?: string;
+  sentinelPassword?: string;
+  /**
+   * TLS settings (plain TCP when undefined)
+   */
+  tls?: TlsConfig;
   ttl: number;
   compression: number;
   timeoutSeconds: number;
 }
+
+/**
+ * Manifest stored under the entry key describing a chunked archive
+ */
+export interface CacheManifest {
+  /**
+   * Storage layout version
+   */
+  version: number;
+
+  /**
+   * Unique id of the save that wrote the chunks
+   */
+  saveId: string;
+
+  /**
+   * Total archive size in bytes
+   */
+  size: number;
+
+  /**
+   * Maximum size of each chunk in bytes
+   */
+  chunkSize: number;
+
+  /**
+   * Number of chunk keys holding the archive
+   */
+  chunkCount: number;
+
+  /**
+   * SHA-256 of the whole archive, hex encoded (absent for older entries)
+   */
+  sha256?: string;
+
+  /**
+   * How chunks are stored: 'fixed' chunks belong to this save only, while
+   * 'content' chunks are shared between entries under their SHA-256 hash
+   */
+  layout: ChunkLayout;
+
+  /**
+   * Hashes of the archive's chunks, in order ('content' layout only)
+   */
+  chunkHashes?: string[];
+
+  /**
+   * Scope the shared chunks are stored under ('content' layout only)
+   */
+  chunkScope?: string;
+}
+
+export type ChunkLayout = 'fixed' | 'content';
+
+/**
+ * Metadata stored next to a cache entry describing the save that produced it
+ */
+export interface CacheMetadata {
+  /**
+   * Cache key as given to the action (without repository prefix)
+   */
+  key: string;
+
+  /**
+   * Compression format of the archive
+   */
+  format: string;
+
+  /**
+   * Compression level used for the archive
+   */
+  compressionLevel: number;
+
+  /**
+   * Compressed archive size in bytes
+   */
+  archiveSize: number;
+
+  /**
+   * Total size of the cached files before compression in bytes
+   */
+  uncompressedSize: number;
+
+  /**
+   * Number of regular files under the cache paths
+   */
+  fileCount: number;
+
+  /**
+   * Cache path patterns as given to the action
+   */
+  paths: string[];
+
+  /**
+   * ISO 8601 timestamp of the save
+   */
+  createdAt: string;
+
+  /**
+   * Commit SHA, ref, workflow and run of the job that saved the entry
+   */
+  commitSha: string;
+  ref: string;
+  workflow: string;
+  runId: string;
+  runnerOs: string;
+
+  /**
+   * Content fingerprint the entry was recorded under, or '' if none was
+   */
+  fingerprint: string;
+}
+
+/**
+ * The parts of a workflow event payload used to scope and guard caches
+ */
+export interface EventPayload {
+  repository?: {
+    full_name?: string;
+    default_branch?: string;
+  };
+  pull_request?: {
+    head?: {repo?: {full_name?: string} | null};
+    base?: {repo?: {full_name?: string}};
+  };
+}
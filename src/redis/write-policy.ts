@@ -0,0 +1,112 @@
+/**
+ * Cache write policy
+ *
+ * Anything that can reach the server can write any key, so a workflow running
+ * untrusted code could plant a poisoned cache that trusted branches restore
+ * later. The write policy decides, before anything is uploaded, whether the
+ * current run may save at all:
+ * - Pull requests from forks are read-only
+ * - Listed events (by default `pull_request_target`, which runs with the base
+ *   repository's ref and secrets) are read-only
+ * - Runs on deny-listed refs are read-only
+ */
+
+import {compilePattern} from './ttl-policy';
+import {readEventPayload} from './operations';
+
+export interface WritePolicyInputs {
+  readOnlyForks: boolean;
+  readOnlyEvents: string;
+  denyRefs: string;
+}
+
+export interface WritePolicy {
+  readOnlyForks: boolean;
+  readOnlyEvents: string[];
+
+  /**
+   * Ref patterns as written, for logs, with their compiled form
+   */
+  denyRefs: Array<{pattern: string; regex: RegExp}>;
+}
+
+export interface WriteContext {
+  event: string;
+  ref: string;
+
+  /**
+   * Repositories a pull request merges from and into
+   * Null outside of pull request events; headRepo is also null when the
+   * fork has been deleted
+   */
+  headRepo: string | null;
+  baseRepo: string | null;
+  pullRequest: boolean;
+}
+
+/**
+ * Split a comma or newline separated list input
+ */
+function parseList(input: string): string[] {
+  return input
+    .split(/[\n,]/)
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+/**
+ * Parse the write policy inputs
+ */
+export function parseWritePolicy(inputs: WritePolicyInputs): WritePolicy {
+  return {
+    readOnlyForks: inputs.readOnlyForks,
+    readOnlyEvents: parseList(inputs.readOnlyEvents),
+    denyRefs: parseList(inputs.denyRefs).map(pattern => ({
+      pattern,
+      regex: compilePattern(pattern),
+    })),
+  };
+}
+
+/**
+ * Describe the current run from the workflow environment and event payload
+ */
+export function getWriteContext(): WriteContext {
+  const pullRequest = readEventPayload()?.pull_request;
+
+  return {
+    event: process.env.GITHUB_EVENT_NAME || '',
+    ref: process.env.GITHUB_REF || '',
+    headRepo: pullRequest?.head?.repo?.full_name || null,
+    baseRepo: pullRequest?.base?.repo?.full_name || null,
+    pullRequest: !!pullRequest,
+  };
+}
+
+/**
+ * Check whether the current run may save caches
+ * Returns the reason the save is refused, or null if it is allowed
+ */
+export function checkWritePolicy(
+  policy: WritePolicy,
+  context: WriteContext
+): string | null {
+  if (policy.readOnlyEvents.includes(context.event)) {
+    return `${context.event} events are read-only`;
+  }
+
+  if (
+    policy.readOnlyForks &&
+    context.pullRequest &&
+    context.headRepo !== context.baseRepo
+  ) {
+    return `pull requests from forks are read-only (head repository: ${context.headRepo || 'deleted fork'})`;
+  }
+
+  const denied = policy.denyRefs.find(({regex}) => regex.test(context.ref));
+  if (denied) {
+    return `ref ${context.ref} matches deny-listed pattern ${denied.pattern}`;
+  }
+
+  return null;
+}
@@ -0,0 +1,8 @@
+/**
+ * Standalone restore action (restore/action.yml)
+ * Nothing is saved after the job; use the save action for that.
+ */
+
+import {restoreCache} from './restore';
+
+restoreCache({saveState: false});
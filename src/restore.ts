@@ -0,0 +1,691 @@
+import * as core from '@actions/core';
+import * as childProcess from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import {pipeline} from 'stream/promises';
+import {
+  createRedisClient,
+  describeRedisTarget,
+  readCacheConfig,
+  scanKeys,
+  getCacheKey,
+  getCacheKeyPrefix,
+  getCacheScope,
+  DEFAULT_SCOPE_TEMPLATE,
+  getRestoreRefs,
+  getIndexKey,
+  indexExists,
+  findLatestEntry,
+  refreshIndex,
+  getEntryPattern,
+  getFullKeyFromEntry,
+  entryExists,
+  openEntry,
+  consumeEntry,
+  downloadEntry,
+  deleteEntry,
+  refreshEntry,
+  readMetadata,
+  readEntryHeader,
+  getProducer,
+  waitForProducer,
+  claimProducer,
+  parseTtlPolicy,
+  resolveTtlRule,
+  getTtlContext,
+  parseWritePolicy,
+  getWriteContext,
+  checkWritePolicy,
+  recordUsage,
+  getUsageKey,
+  extendExpiry,
+  CacheMetadata,
+  RedisClient,
+} from './redis';
+import {
+  getExtractionHandler,
+  detectArchiveFormat,
+  ARCHIVE_HEADER_SIZE,
+  CompressionBackend,
+} from './compression';
+import {
+  resolveGlobPaths,
+  validatePaths,
+  getPathsFingerprint,
+  formatBytes,
+} from './utils';
+import {SAVE_SETTINGS} from './save';
+
+/**
+ * Expose the metadata of the restored entry as outputs
+ * Outputs are empty on a miss or for entries saved without metadata
+ */
+function setMetadataOutputs(metadata: CacheMetadata | null): void {
+  core.setOutput('cache-created-at', metadata?.createdAt || '');
+  core.setOutput('cache-commit-sha', metadata?.commitSha || '');
+  core.setOutput('cache-format', metadata?.format || '');
+  core.setOutput('cache-size', metadata ? metadata.archiveSize.toString() : '');
+  core.setOutput(
+    'cache-uncompressed-size',
+    metadata ? metadata.uncompressedSize.toString() : ''
+  );
+  core.setOutput('cache-metadata', metadata ? JSON.stringify(metadata) : '');
+}
+
+/**
+ * Log where a cache entry came from
+ */
+function logMetadata(metadata: CacheMetadata): void {
+  core.info(`📋 Cache metadata:`);
+  core.info(`   Saved: ${metadata.createdAt}`);
+  core.info(
+    `   Commit: ${metadata.commitSha || 'unknown'} (${metadata.ref || 'unknown ref'})`
+  );
+  core.info(
+    `   Workflow: ${metadata.workflow || 'unknown'} (run ${metadata.runId || 'unknown'}, ${metadata.runnerOs || 'unknown OS'})`
+  );
+  core.info(
+    `   Format: ${metadata.format} (level ${metadata.compressionLevel})`
+  );
+  core.info(
+    `   Size: ${formatBytes(metadata.archiveSize)} compressed, ${formatBytes(metadata.uncompressedSize)} uncompressed`
+  );
+  core.info(`   Files: ${metadata.fileCount}`);
+  core.info(`   Paths: ${metadata.paths.join(', ')}`);
+}
+
+/**
+ * Keep this job's producer marker alive in a background process
+ * The process outlives the restore step, and stops once the save step
+ * releases the marker or the job ends.
+ */
+function startProducerHeartbeat(fullKey: string, token: string): void {
+  const heartbeat = childProcess.spawn(
+    process.execPath,
+    [path.join(__dirname, 'producer-heartbeat.js'), fullKey, token],
+    {detached: true, stdio: 'ignore'}
+  );
+  heartbeat.on('error', error => {
+    core.debug(`Failed to start producer heartbeat: ${error.message}`);
+  });
+  heartbeat.unref();
+}
+
+/**
+ * Find the newest entry of a ref matching one of the restore keys
+ * Restore keys are tried in order and the first one with a match wins
+ * @param indexKey - Entry index to search, or null to fall back to SCAN
+ */
+async function findRestoreKeyMatch(
+  redis: RedisClient,
+  restoreKeys: string[],
+  scope: string,
+  ref: string,
+  indexKey: string | null
+): Promise<{fullKey: string; key: string} | null> {
+  const prefix = getCacheKeyPrefix(scope, ref);
+
+  for (const restoreKey of restoreKeys) {
+    const fullRestoreKey = getCacheKey(restoreKey, scope, ref);
+    let latestKey: string | null = null;
+
+    if (indexKey) {
+      core.info(`   Looking up prefix: ${restoreKey}`);
+      latestKey = await findLatestEntry(redis, indexKey, fullRestoreKey);
+    } else {
+      const pattern = getEntryPattern(fullRestoreKey, redis.isCluster);
+
+      core.info(`   Scanning for pattern: ${restoreKey}`);
+      const matchingKeys = await scanKeys(redis, pattern);
+
+      if (matchingKeys.length > 0) {
+        // Sort keys to get most recent (assumes timestamp in key)
+        const sortedKeys = matchingKeys.sort().reverse();
+        latestKey = getFullKeyFromEntry(sortedKeys[0], redis.isCluster);
+        core.info(`   Found ${matchingKeys.length} matching key(s)`);
+      }
+    }
+
+    if (latestKey) {
+      core.debug(`   Using latest: ${latestKey}`);
+
+      // Extract original key without repository and ref prefix
+      return {fullKey: latestKey, key: latestKey.slice(prefix.length)};
+    }
+  }
+
+  return null;
+}
+
+export interface RestoreOptions {
+  /**
+   * Record the settings of the save step as state for the post step, and
+   * let other jobs wait for this job's save
+   */
+  saveState: boolean;
+}
+
+/**
+ * Restore a cache from the action's inputs
+ */
+export async function restoreCache(options: RestoreOptions): Promise<void> {
+  try {
+    core.info('🚀 Redis Cache Action - Restore Phase');
+    core.debug(`Running on: ${process.platform} ${process.arch}`);
+    core.debug(`Node version: ${process.version}`);
+
+    // Get inputs
+    const pathsInput = core.getInput('path', {required: true});
+    const key = core.getInput('key', {required: true});
+    const scopeTemplate = core.getInput('scope') || DEFAULT_SCOPE_TEMPLATE;
+    const scope = getCacheScope(scopeTemplate);
+    const restoreKeysInput = core.getInput('restore-keys');
+    const config = readCacheConfig(name => core.getInput(name));
+    const {ttl, timeoutSeconds} = config;
+    // Parsed here so a malformed policy fails before the job does any work
+    const ttlPolicyInput = core.getInput('ttl-policy');
+    const ttlRule = resolveTtlRule(
+      parseTtlPolicy(ttlPolicyInput),
+      getTtlContext()
+    );
+    const compressionBackend = (core.getInput('compression-backend') ||
+      'auto') as CompressionBackend;
+    const verifyIntegrity = core.getInput('verify-integrity') !== 'false';
+    const deleteCorruptEntries =
+      core.getInput('delete-corrupt-entries') === 'true';
+    const refreshTtlOnHit = core.getInput('refresh-ttl-on-hit') === 'true';
+    const lookupOnly = core.getInput('lookup-only') === 'true';
+    const skipUnchanged = core.getInput('skip-unchanged') === 'true';
+    const writePolicyInputs = {
+      readOnlyForks: core.getInput('read-only-forks') !== 'false',
+      readOnlyEvents: core.getInput('read-only-events'),
+      denyRefs: core.getInput('deny-save-refs'),
+    };
+    // Evaluated again by the save step; here it only decides whether other
+    // jobs should wait for this one (see claimProducer)
+    const saveRefusal = checkWritePolicy(
+      parseWritePolicy(writePolicyInputs),
+      getWriteContext()
+    );
+    const waitForProducerSeconds =
+      parseInt(core.getInput('wait-for-producer-seconds'), 10) || 0;
+
+    core.debug('Configuration:');
+    core.debug(`  Scope: ${scope}`);
+    core.debug(
+      `  Redis Auth: ${config.redisPassword ? 'Enabled' : 'Disabled'}`
+    );
+    core.debug(
+      `  Redis URL: ${core.getInput('redis-url') ? 'Provided' : 'Not set'}`
+    );
+    core.debug(`  TTL: ${ttl}s (${Math.round(ttl / 86400)} days)`);
+    core.debug(
+      `  TTL Policy: ${ttlRule ? `matched "${ttlRule.source}"` : 'No match'}`
+    );
+    core.debug(
+      `  Refresh TTL On Hit: ${refreshTtlOnHit ? 'Enabled' : 'Disabled'}`
+    );
+    core.debug(`  Compression Backend: ${compressionBackend}`);
+    core.debug(`  Skip Unchanged: ${skipUnchanged ? 'Enabled' : 'Disabled'}`);
+    core.debug(`  Lookup Only: ${lookupOnly ? 'Enabled' : 'Disabled'}`);
+    core.debug(
+      `  Integrity Check: ${verifyIntegrity ? 'Enabled' : 'Disabled'}${deleteCorruptEntries ? ' (delete corrupt entries)' : ''}`
+    );
+    core.debug(`  Timeout: ${timeoutSeconds}s`);
+    core.debug(
+      `  Save Allowed: ${saveRefusal ? `No (${saveRefusal})` : 'Yes'}`
+    );
+    core.debug(
+      `  Wait For Producer: ${waitForProducerSeconds > 0 ? `${waitForProducerSeconds}s` : 'Disabled'}`
+    );
+
+    // Parse paths
+    const paths = pathsInput
+      .split('\n')
+      .map(p => p.trim())
+      .filter(p => p.length > 0);
+
+    core.info(`📂 Cache paths (${paths.length} patterns):`);
+    paths.forEach(p => core.info(`   - ${p}`));
+
+    // Parse restore keys
+    const restoreKeys = restoreKeysInput
+      ? restoreKeysInput
+          .split('\n')
+          .map(k => k.trim())
+          .filter(k => k.length > 0)
+      : [];
+
+    if (restoreKeys.length > 0) {
+      core.info(`🔑 Restore keys (${restoreKeys.length} fallbacks):`);
+      restoreKeys.forEach(k => core.info(`   - ${k}`));
+    }
+
+    // Create Redis client
+    core.info(`🔌 Connecting to Redis...`);
+
+    core.debug(`  Target: ${describeRedisTarget(config)}`);
+
+    const redis = await createRedisClient(config);
+    core.debug(`  Status: Connected and ready`);
+
+    try {
+      // Add repository and ref context to key
+      const fullKey = getCacheKey(key, scope);
+      const restoreRefs = getRestoreRefs();
+      core.info(`🔍 Looking for cache with key: ${key}`);
+      core.debug(`Full Redis key: ${fullKey}`);
+      core.debug(`Restore refs: ${restoreRefs.join(', ')}`);
+
+      let matchedFullKey = '';
+      let matchedKey = '';
+      let cacheHit = false;
+
+      // Try exact key first
+      core.info('   Trying exact key match...');
+
+      if (await entryExists(redis, fullKey)) {
+        matchedFullKey = fullKey;
+        matchedKey = key;
+        cacheHit = true;
+        core.info(`   ✅ Exact cache hit!`);
+      } else {
+        core.info('   ❌ No exact match found');
+
+        // Another job may already be building this key - wait for its save
+        // rather than building the same contents again. A lookup reports
+        // the miss right away.
+        const producer =
+          waitForProducerSeconds > 0 && !lookupOnly
+            ? await getProducer(redis, fullKey)
+            : null;
+        if (producer) {
+          core.info(
+            `⏳ Key is being built by ${producer} - waiting up to ${waitForProducerSeconds}s...`
+          );
+          const waitStart = Date.now();
+          const waitResult = await waitForProducer(
+            redis,
+            fullKey,
+            waitForProducerSeconds
+          );
+          const waited = Math.round((Date.now() - waitStart) / 1000);
+
+          if (waitResult === 'ready') {
+            matchedFullKey = fullKey;
+            matchedKey = key;
+            cacheHit = true;
+            core.info(`   ✅ Cache saved by producer after ${waited}s`);
+          } else if (waitResult === 'abandoned') {
+            core.info(
+              `   ❌ Producer stopped without saving the cache (waited ${waited}s)`
+            );
+          } else {
+            core.info(`   ❌ Producer still building after ${waited}s`);
+          }
+        }
+      }
+
+      // Fall back to the restore keys, then to caches of the refs this run
+      // may read from. Entries saved before keys were scoped by ref come last.
+      if (!matchedFullKey) {
+        // Entries are looked up in the repository index, newest first.
+        // Repositories without an index yet fall back to scanning, and so do
+        // unscoped entries, which were saved before the index held them all.
+        const indexKey = getIndexKey(scope);
+        const useIndex = await indexExists(redis, indexKey);
+        if (!useIndex) {
+          core.debug('   No entry index found - falling back to SCAN');
+        }
+
+        for (const ref of [...restoreRefs, '']) {
+          const refLabel = ref || 'unscoped caches';
+          core.info(`   Searching ${refLabel}...`);
+
+          // The exact key of the current ref was already checked above
+          if (ref !== restoreRefs[0]) {
+            const refFullKey = getCacheKey(key, scope, ref);
+
+            if (await entryExists(redis, refFullKey)) {
+              matchedFullKey = refFullKey;
+              matchedKey = key;
+              cacheHit = true;
+              core.info(`   ✅ Exact cache hit from ${refLabel}`);
+              break;
+            }
+          }
+
+          if (restoreKeys.length > 0) {
+            const match = await findRestoreKeyMatch(
+              redis,
+              restoreKeys,
+              scope,
+              ref,
+              useIndex && ref ? indexKey : null
+            );
+
+            if (match) {
+              matchedFullKey = match.fullKey;
+              matchedKey = match.key;
+              cacheHit = false; // Partial match, not exact hit
+              core.info(`   ✅ Cache found for: ${match.key} (${refLabel})`);
+              break;
+            }
+          }
+        }
+
+        if (!matchedFullKey) {
+          core.info('   ❌ No matching cache found for any ref');
+        }
+      }
+
+      let restored = false;
+      // Checksum of a corrupt entry under the primary key, for the save step
+      // to overwrite
+      let brokenSha256 = '';
+      let metadata: CacheMetadata | null = null;
+
+      if (matchedFullKey) {
+        metadata = await readMetadata(redis, matchedFullKey);
+        if (metadata) {
+          logMetadata(metadata);
+        } else {
+          core.debug('  No metadata recorded for this cache entry');
+        }
+      }
+
+      if (matchedFullKey && lookupOnly) {
+        core.info('🔎 Lookup only - skipping download');
+      } else if (matchedFullKey) {
+        // Pick the handler from the stored archive's format rather than the
+        // current preference - the entry may have been saved by another backend
+        const header = await readEntryHeader(
+          redis,
+          matchedFullKey,
+          ARCHIVE_HEADER_SIZE
+        );
+        const archiveFormat = header ? detectArchiveFormat(header) : null;
+        const compressionHandler = await getExtractionHandler(
+          archiveFormat,
+          compressionBackend
+        );
+
+        // Extract to current working directory (same as where archive was created)
+        const workingDir = process.cwd();
+        const tempDir = process.env.RUNNER_TEMP || '/tmp';
+        const tempFile = path.join(tempDir, `cache-${Date.now()}.archive`);
+
+        core.debug(`  Target directory: ${workingDir}`);
+
+        try {
+          const restoreStart = Date.now();
+          const entry = await openEntry(redis, matchedFullKey);
+
+          if (entry && verifyIntegrity && entry.sha256) {
+            // The checksum covers the whole archive, so it is only known once
+            // the last chunk has been read
+            const streaming = !!compressionHandler.extractFromStream;
+            if (streaming) {
+              core.info(
+                `💾 Downloading and extracting cache (${formatBytes(entry.size)})...`
+              );
+            } else {
+              core.info(`💾 Downloading cache (${formatBytes(entry.size)})...`);
+              core.debug(`  Temp file: ${tempFile}`);
+            }
+
+            let sha256 = '';
+            try {
+              if (compressionHandler.extractFromStream) {
+                // Chunks are hashed while earlier ones are being extracted
+                const extract =
+                  compressionHandler.extractFromStream.bind(compressionHandler);
+                sha256 = await consumeEntry(entry, input =>
+                  extract(input, workingDir)
+                );
+              } else {
+                sha256 = await downloadEntry(entry, tempFile);
+              }
+            } catch (downloadError) {
+              const errorMsg =
+                downloadError instanceof Error
+                  ? downloadError.message
+                  : String(downloadError);
+              if (!errorMsg.includes('Cache entry')) {
+                throw downloadError;
+              }
+              // Chunks went missing or the size is wrong - checked below
+              core.warning(`⚠️  ${errorMsg}`);
+            }
+            core.debug(`  Download time: ${Date.now() - restoreStart}ms`);
+
+            if (sha256 === entry.sha256) {
+              core.info(`🔒 Integrity verified (SHA-256 ${sha256})`);
+              if (!streaming) {
+                core.info('📦 Extracting cache...');
+                await compressionHandler.extract(tempFile, workingDir);
+              }
+              restored = true;
+            } else {
+              core.warning(
+                `⚠️  Cache entry ${matchedKey} failed its integrity check - treating as cache miss`
+              );
+              core.warning(`   Expected SHA-256: ${entry.sha256}`);
+              core.warning(
+                `   Actual SHA-256:   ${sha256 || 'download failed'}`
+              );
+              if (streaming) {
+                core.warning(
+                  '   Files extracted from it may be incomplete or corrupt'
+                );
+              }
+
+              if (deleteCorruptEntries) {
+                await deleteEntry(redis, matchedFullKey);
+                await recordUsage(redis, scope, matchedFullKey, 0);
+                core.info(`🗑️  Deleted corrupt cache entry ${matchedKey}`);
+              } else if (matchedFullKey === fullKey) {
+                brokenSha256 = entry.sha256;
+              }
+            }
+          } else if (entry) {
+            if (!entry.sha256) {
+              core.debug('  Entry has no checksum - skipping integrity check');
+            }
+
+            core.info(
+              `💾 Downloading and extracting cache (${formatBytes(entry.size)})...`
+            );
+
+            if (compressionHandler.extractFromStream) {
+              // Chunks are fetched while earlier ones are being extracted
+              core.debug('  Streaming archive directly from Redis');
+              await compressionHandler.extractFromStream(
+                entry.stream,
+                workingDir
+              );
+            } else {
+              // Handler can only read files - stage the archive in a temp file
+              core.debug(`  Temp file: ${tempFile}`);
+              await pipeline(entry.stream, fs.createWriteStream(tempFile));
+              core.debug(`  Download time: ${Date.now() - restoreStart}ms`);
+              await compressionHandler.extract(tempFile, workingDir);
+            }
+            restored = true;
+          } else {
+            core.warning(
+              `⚠️  Cache entry ${matchedKey} disappeared or is incomplete - treating as cache miss`
+            );
+          }
+
+          if (entry && restored) {
+            core.info(`✅ Cache restored successfully!`);
+            core.info(`   Matched key: ${matchedKey}`);
+            core.info(`   Cache size: ${formatBytes(entry.size)}`);
+            core.debug(`  Total restore time: ${Date.now() - restoreStart}ms`);
+          }
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          core.error(`Failed to extract cache: ${errorMsg}`);
+          core.error('Troubleshooting:');
+          core.error('  - Check if compression tools are installed and accessible');
+          core.error('  - Verify disk space is available');
+          core.error('  - Check file permissions in target directory');
+          throw error;
+        } finally {
+          // Clean up temp file
+          if (fs.existsSync(tempFile)) {
+            fs.unlinkSync(tempFile);
+            core.debug(`Cleaned up temp file: ${tempFile}`);
+          }
+        }
+      }
+
+      // A lookup reports the entry it found as if it had been restored
+      const found = restored || (lookupOnly && !!matchedFullKey);
+
+      if (found) {
+        // Sliding expiration - caches that keep being restored never expire
+        // A pinned rule only pins entries this run saves, never restored ones
+        const refreshTtl = ttlRule?.ttl ?? ttl;
+        if (refreshTtlOnHit && restored) {
+          try {
+            await refreshEntry(redis, matchedFullKey, refreshTtl, scope);
+            await refreshIndex(redis, getIndexKey(scope), refreshTtl);
+            await extendExpiry(redis, getUsageKey(scope), refreshTtl);
+            core.info(
+              `⏱️  Cache expiry extended to at least ${refreshTtl}s (${Math.round(refreshTtl / 86400)} days)`
+            );
+          } catch (error) {
+            // The restore itself succeeded
+            const errorMsg =
+              error instanceof Error ? error.message : String(error);
+            core.warning(`⚠️  Failed to refresh cache expiry: ${errorMsg}`);
+          }
+        }
+
+        // Set outputs
+        core.setOutput('cache-hit', cacheHit.toString());
+        core.setOutput('cache-matched-key', matchedKey);
+        setMetadataOutputs(metadata);
+
+        core.info(`📊 Cache Statistics:`);
+        core.info(
+          `   Cache Hit: ${cacheHit ? 'Yes (exact match)' : `No (${restored ? 'restored' : 'found'} from fallback)`}`
+        );
+        core.info(`   Matched Key: ${matchedKey}`);
+      } else {
+        // No cache found
+        core.info(`❌ Cache miss - no cache found for key or restore keys`);
+
+        // Set outputs
+        core.setOutput('cache-hit', 'false');
+        core.setOutput('cache-matched-key', '');
+        setMetadataOutputs(null);
+      }
+
+      // Anything but an exact hit is saved under the primary key, so later
+      // runs don't have to go through the restore-key fallback again
+      if (options.saveState && (!cacheHit || !found)) {
+        if (saveRefusal) {
+          core.info(`🔒 Cache will not be saved: ${saveRefusal}`);
+        } else {
+          core.info(
+            `📝 Cache will be saved${found ? ` under key ${key}` : ''} after job completes`
+          );
+        }
+
+        // Save state for post-action
+        for (const name of SAVE_SETTINGS) {
+          core.saveState(name, core.getInput(name));
+        }
+
+        if (brokenSha256) {
+          core.saveState('broken-entry', brokenSha256);
+        }
+
+        // Remember what the fallback restored, so the save step can tell
+        // whether the job changed anything
+        if (restored && skipUnchanged && !saveRefusal) {
+          const restoredPaths = await validatePaths(
+            await resolveGlobPaths(paths)
+          );
+          core.saveState('restored-key', matchedKey);
+          core.saveState('restored-entry', matchedFullKey);
+          core.saveState(
+            'restored-fingerprint',
+            await getPathsFingerprint(restoredPaths)
+          );
+          core.debug(
+            `  Fingerprinted ${restoredPaths.length} restored path(s)`
+          );
+        }
+
+        // Let jobs missing the same key wait for this job's save. A job that
+        // restored a fallback may find nothing changed and not save at all,
+        // and a lookup doesn't build anything.
+        if (
+          waitForProducerSeconds > 0 &&
+          !saveRefusal &&
+          !restored &&
+          !lookupOnly
+        ) {
+          const producerToken = await claimProducer(redis, fullKey);
+          if (producerToken) {
+            core.saveState('producer-token', producerToken);
+            startProducerHeartbeat(fullKey, producerToken);
+            core.debug('  Marked key as being built by this job');
+          }
+        }
+      }
+    } finally {
+      await redis.quit();
+      core.debug('Redis connection closed');
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    core.setFailed(`❌ Cache restore failed: ${errorMsg}`);
+
+    if (error instanceof Error && error.stack) {
+      core.debug('Stack trace:');
+      core.debug(error.stack);
+    }
+
+    // Provide troubleshooting guidance based on error type
+    if (errorMsg.includes('ECONNREFUSED')) {
+      core.error('');
+      core.error('Connection refused - Redis server is not reachable:');
+      core.error('  - Verify redis-host and redis-port are correct');
+      core.error('  - Check if Redis server is running');
+      core.error('  - Verify network connectivity');
+      core.error('  - Check firewall rules if using remote Redis');
+    } else if (errorMsg.includes('ENOTFOUND')) {
+      core.error('');
+      core.error('DNS resolution failed - cannot find Redis host:');
+      core.error('  - Verify redis-host is correct');
+      core.error('  - Check DNS configuration');
+      core.error('  - Try using IP address instead of hostname');
+    } else if (
+      errorMsg.includes('authentication') ||
+      errorMsg.includes('NOAUTH')
+    ) {
+      core.error('');
+      core.error('Authentication failed:');
+      core.error('  - Verify redis-password is correct');
+      core.error('  - Check if Redis requires authentication');
+      core.error('  - Verify password is set in repository secrets');
+    } else if (errorMsg.includes('ETIMEDOUT')) {
+      core.error('');
+      core.error('Connection timeout:');
+      core.error('  - Redis server may be overloaded');
+      core.error('  - Network latency may be too high');
+      core.error('  - Check Redis server health');
+    }
+
+    core.error('');
+    core.error(
+      'For more help, see: https://github.com/aiaugmentedsoftwaredevelopment/github-actions-redis-cache#troubleshooting'
+    );
+  }
+}
+
@@ -0,0 +1,9 @@
+/**
+ * Standalone save action (save/action.yml)
+ * Takes every setting as an input, so it can run at any point of the job.
+ */
+
+import * as core from '@actions/core';
+import {saveCache} from './save';
+
+saveCache(name => core.getInput(name), {afterRestore: false});
@@ -0,0 +1,841 @@
+import * as core from '@actions/core';
+import * as fs from 'fs';
+import * as path from 'path';
+import {pipeline} from 'stream/promises';
+import {
+  createRedisClient,
+  getCacheKey,
+  getCacheScope,
+  DEFAULT_SCOPE_TEMPLATE,
+  getIndexKey,
+  addToIndex,
+  describeRedisTarget,
+  readCacheConfig,
+  SettingReader,
+  verifyEntry,
+  readManifest,
+  SaveLock,
+  getSaveLockHolder,
+  releaseProducer,
+  persistEntry,
+  parseTtlPolicy,
+  resolveTtlRule,
+  getTtlContext,
+  parseWritePolicy,
+  getWriteContext,
+  checkWritePolicy,
+  recordUsage,
+  enforceQuota,
+  QuotaEnforcement,
+  recordFingerprint,
+  findEntryByFingerprint,
+  copyEntry,
+  readMetadata,
+  CacheMetadata,
+  writeMetadata,
+  EntryWriteStream,
+  CacheConfig,
+  RedisClient,
+} from './redis';
+import {
+  getBestCompressionHandler,
+  CompressionBackend,
+} from './compression';
+import {
+  resolveGlobPaths,
+  validatePaths,
+  measurePaths,
+  getPathsFingerprint,
+  formatBytes,
+} from './utils';
+
+/**
+ * Report the entries deleted to keep the repository within its quota
+ */
+function logEviction(result: QuotaEnforcement, quotaBytes: number): void {
+  if (result.evicted.length > 0) {
+    core.info(
+      `🧹 Evicted ${result.evicted.length} old cache entr${result.evicted.length === 1 ? 'y' : 'ies'} (${formatBytes(result.freedBytes)}) to stay within the repository quota`
+    );
+    for (const evicted of result.evicted) {
+      core.debug(`  Evicted: ${evicted}`);
+    }
+  }
+  core.debug(
+    `  Repository usage: ${formatBytes(result.usage)} of ${formatBytes(quotaBytes)}`
+  );
+  if (result.usage > quotaBytes) {
+    core.warning(
+      `Repository usage (${formatBytes(result.usage)}) still exceeds its quota (${formatBytes(quotaBytes)}) - only pinned entries are left to evict`
+    );
+  }
+}
+
+/**
+ * Producer marker the restore step claimed for this job's key
+ */
+interface ProducerMarker {
+  config: CacheConfig;
+  fullKey: string;
+  producerToken: string;
+}
+
+/**
+ * Release a producer marker over a connection of its own
+ * Used when the save ends before connecting, e.g. because nothing changed or
+ * no files were found. The marker expires on its own if this fails.
+ */
+async function releaseProducerMarker(marker: ProducerMarker): Promise<void> {
+  try {
+    const redis = await createRedisClient(marker.config);
+    try {
+      await releaseProducer(redis, marker.fullKey, marker.producerToken);
+    } finally {
+      await redis.quit();
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    core.debug(`Failed to release producer marker: ${errorMsg}`);
+  }
+}
+
+/**
+ * Check whether a complete entry is already saved under the key
+ * An entry the restore step found corrupt (identified by its recorded
+ * checksum) doesn't count, so it is overwritten instead of blocking saves
+ * until it expires.
+ */
+async function isEntrySaved(
+  redis: RedisClient,
+  fullKey: string,
+  brokenSha256: string
+): Promise<boolean> {
+  if (!(await verifyEntry(redis, fullKey))) {
+    return false;
+  }
+  if (!brokenSha256) {
+    return true;
+  }
+  return (await readManifest(redis, fullKey))?.sha256 !== brokenSha256;
+}
+
+/**
+ * Settings the save step reads, by input name
+ * The main action's restore step records these for its post step.
+ */
+export const SAVE_SETTINGS = [
+  'key',
+  'path',
+  'scope',
+  'redis-host',
+  'redis-port',
+  'redis-password',
+  'redis-url',
+  'redis-cluster-nodes',
+  'redis-sentinels',
+  'redis-sentinel-master',
+  'redis-sentinel-password',
+  'redis-tls',
+  'redis-tls-ca',
+  'redis-tls-cert',
+  'redis-tls-key',
+  'redis-tls-servername',
+  'redis-tls-insecure-skip-verify',
+  'ttl',
+  'ttl-policy',
+  'compression',
+  'compression-backend',
+  'reproducible-archives',
+  'max-cache-size',
+  'repository-quota-mb',
+  'chunk-dedup',
+  'reuse-identical-entries',
+  'timeout-seconds',
+  'read-only-forks',
+  'read-only-events',
+  'deny-save-refs',
+];
+
+export interface SaveOptions {
+  /**
+   * Settings are the state recorded by the main action's restore step, which
+   * records no key after an exact hit
+   */
+  afterRestore: boolean;
+}
+
+/**
+ * Compress the cache paths and save them under the cache key
+ * Failures are reported but never fail the job.
+ */
+export async function saveCache(
+  read: SettingReader,
+  options: SaveOptions
+): Promise<void> {
+  let producerMarker: ProducerMarker | null = null;
+
+  try {
+    core.info('💾 Redis Cache Action - Save Phase');
+    core.debug(`Running on: ${process.platform} ${process.arch}`);
+    core.debug(`Node version: ${process.version}`);
+
+    // Get settings, as recorded by the restore phase or given as inputs
+    const key = read('key');
+    const scope = getCacheScope(read('scope') || DEFAULT_SCOPE_TEMPLATE);
+    const pathsInput = read('path');
+    const config = readCacheConfig(read);
+    const {compression, timeoutSeconds} = config;
+    const ttlPolicy = parseTtlPolicy(read('ttl-policy'));
+    const ttlRule = resolveTtlRule(ttlPolicy, getTtlContext());
+    // Pinned entries are uploaded with the plain ttl and persisted once saved
+    const pinned = ttlRule !== null && ttlRule.ttl === null;
+    const ttl = ttlRule?.ttl ?? config.ttl;
+    const compressionBackend = (read('compression-backend') ||
+      'auto') as CompressionBackend;
+    const maxCacheSize = parseInt(read('max-cache-size'), 10);
+    const repositoryQuota = parseInt(read('repository-quota-mb'), 10) || 0;
+    // Usage is counted per entry, but deduplicated entries share chunks that
+    // evicting an entry can't free - a quota can't be kept with both
+    const chunkDedupRequested = read('chunk-dedup') === 'true';
+    const chunkDedup = chunkDedupRequested && repositoryQuota === 0;
+    // Real mtimes and owners in tar headers would differ between every save,
+    // leaving deduplication nothing to share
+    const reproducibleArchives =
+      read('reproducible-archives') === 'true' || chunkDedup;
+    const reuseIdenticalEntries = read('reuse-identical-entries') === 'true';
+    const producerToken = read('producer-token');
+    const restoredKey = read('restored-key');
+    const restoredFingerprint = read('restored-fingerprint');
+    const restoredEntry = read('restored-entry');
+    const brokenEntry = read('broken-entry');
+    const writePolicy = parseWritePolicy({
+      readOnlyForks: read('read-only-forks') !== 'false',
+      readOnlyEvents: read('read-only-events'),
+      denyRefs: read('deny-save-refs'),
+    });
+
+    // Jobs waiting on this one see the saved entry, or stop waiting, however
+    // the save ends
+    if (producerToken && key) {
+      producerMarker = {
+        config,
+        fullKey: getCacheKey(key, scope),
+        producerToken,
+      };
+    }
+
+    // Check if cache should be saved
+    if (!key || !pathsInput) {
+      if (options.afterRestore) {
+        core.info('ℹ️  Cache was restored by exact key - skipping save');
+      } else {
+        core.warning('⚠️  No key or path given - skipping cache save');
+      }
+      return;
+    }
+
+    // Untrusted runs must never write caches that trusted runs restore
+    const saveRefusal = checkWritePolicy(writePolicy, getWriteContext());
+    if (saveRefusal) {
+      core.info(`🔒 Cache save refused by write policy: ${saveRefusal}`);
+      core.info('   Caches can still be restored by this run');
+      return;
+    }
+
+    if (chunkDedupRequested && !chunkDedup) {
+      core.warning(
+        'chunk-dedup is ignored with repository-quota-mb - chunks shared between entries can neither be counted per entry nor freed by evicting one'
+      );
+    }
+
+    core.info(`🔑 Saving cache with key: ${key}`);
+    core.debug('Configuration:');
+    core.debug(`  Scope: ${scope}`);
+    core.debug(
+      `  Redis Auth: ${config.redisPassword ? 'Enabled' : 'Disabled'}`
+    );
+    core.debug(`  Redis URL: ${read('redis-url') ? 'Provided' : 'Not set'}`);
+    core.debug(`  TTL: ${ttl}s (${Math.round(ttl / 86400)} days)`);
+    core.debug(
+      `  TTL Policy: ${ttlRule ? `matched "${ttlRule.source}"` : ttlPolicy.length > 0 ? 'no rule matched' : 'Not set'}`
+    );
+    core.debug(`  Compression: Level ${compression}`);
+    core.debug(`  Compression Backend: ${compressionBackend}`);
+    core.debug(
+      `  Reproducible Archives: ${reproducibleArchives ? 'Enabled' : 'Disabled'}`
+    );
+    core.debug(`  Max Cache Size: ${maxCacheSize}MB`);
+    core.debug(
+      `  Repository Quota: ${repositoryQuota > 0 ? `${repositoryQuota}MB` : 'Unlimited'}`
+    );
+    core.debug(`  Chunk Dedup: ${chunkDedup ? 'Enabled' : 'Disabled'}`);
+    core.debug(
+      `  Reuse Identical Entries: ${reuseIdenticalEntries ? 'Enabled' : 'Disabled'}`
+    );
+    core.debug(`  Timeout: ${timeoutSeconds}s`);
+    if (restoredKey) {
+      core.debug(`  Restored From: ${restoredKey}`);
+    }
+
+    // Parse paths
+    const pathPatterns = pathsInput
+      .split('\n')
+      .map(p => p.trim())
+      .filter(p => p.length > 0);
+
+    core.info(`📂 Resolving cache paths (${pathPatterns.length} patterns)...`);
+    core.debug('Patterns to resolve:');
+    pathPatterns.forEach(p => core.debug(`   - ${p}`));
+
+    // Resolve glob patterns to actual files
+    const globStart = Date.now();
+    const resolvedPaths = await resolveGlobPaths(pathPatterns);
+    const globTime = Date.now() - globStart;
+    core.debug(`  Glob resolution time: ${globTime}ms`);
+    core.debug(`  Paths found: ${resolvedPaths.length}`);
+
+    if (resolvedPaths.length === 0) {
+      core.warning(
+        '⚠️  No files found matching cache patterns - skipping cache save'
+      );
+      core.info('Patterns searched:');
+      pathPatterns.forEach(p => core.info(`   - ${p}`));
+      core.error('');
+      core.error('Troubleshooting:');
+      core.error('  - Verify glob patterns are correct');
+      core.error('  - Check if files exist before cache save runs');
+      core.error('  - Ensure paths are relative or absolute as expected');
+      return;
+    }
+
+    // Validate paths exist
+    const validateStart = Date.now();
+    const validPaths = await validatePaths(resolvedPaths);
+    const validateTime = Date.now() - validateStart;
+    core.debug(`  Path validation time: ${validateTime}ms`);
+    core.debug(`  Valid paths: ${validPaths.length}`);
+
+    if (validPaths.length === 0) {
+      core.warning('⚠️  All resolved paths are invalid - skipping cache save');
+      core.error('');
+      core.error('Troubleshooting:');
+      core.error('  - Files may have been deleted during job execution');
+      core.error('  - Check file permissions');
+      return;
+    }
+
+    core.info(`   Found ${validPaths.length} files/directories to cache`);
+    core.debug('Cache contents (first 10):');
+    validPaths.slice(0, 10).forEach(p => core.debug(`   - ${p}`));
+    if (validPaths.length > 10) {
+      core.debug(`   ... and ${validPaths.length - 10} more`);
+    }
+
+    // A fallback restore the job didn't change is copied to the primary key
+    // rather than compressed and uploaded again
+    let unchangedEntry = '';
+    if (restoredFingerprint) {
+      const fingerprint = await getPathsFingerprint(validPaths);
+      if (fingerprint === restoredFingerprint) {
+        core.info(
+          `ℹ️  Cache contents unchanged since restoring ${restoredKey}`
+        );
+        unchangedEntry = restoredEntry;
+      } else {
+        core.debug('  Cache contents changed since restore');
+      }
+    }
+
+    // Create Redis client
+    core.info(`🔌 Connecting to Redis...`);
+    core.debug(`  Target: ${describeRedisTarget(config)}`);
+
+    const redis = await createRedisClient(config);
+    core.debug(`  Status: Connected and ready`);
+
+    // Released below on the same connection
+    const marker = producerMarker;
+    producerMarker = null;
+
+    let lock: SaveLock | null = null;
+
+    try {
+      const fullKey = getCacheKey(key, scope);
+      if (brokenEntry) {
+        core.debug(`  Corrupt entry to overwrite: SHA-256 ${brokenEntry}`);
+      }
+
+      // Another job may have saved this key since the restore step missed
+      if (await isEntrySaved(redis, fullKey, brokenEntry)) {
+        core.info(
+          `ℹ️  Cache for key ${key} already exists - skipping save (saved by another job)`
+        );
+        return;
+      }
+
+      // Only one job compresses and uploads a key at a time
+      lock = await SaveLock.acquire(redis, fullKey);
+      if (!lock) {
+        const holder = await getSaveLockHolder(redis, fullKey);
+        core.info(
+          `⏭️  Another job is already saving key ${key} - deferring to it`
+        );
+        core.info(
+          `   Lock holder: ${holder || 'unknown (lock just released)'}`
+        );
+        return;
+      }
+
+      // The previous holder may have finished between the check and the lock
+      if (await isEntrySaved(redis, fullKey, brokenEntry)) {
+        core.info(
+          `ℹ️  Cache for key ${key} was saved by another job - skipping save`
+        );
+        return;
+      }
+
+      // Get compression handler
+      const compressionHandler = await getBestCompressionHandler(
+        compressionBackend
+      );
+
+      const maxCacheSizeBytes = maxCacheSize * 1024 * 1024; // Convert MB to bytes
+      const quotaBytes = repositoryQuota * 1024 * 1024;
+      const tempDir = process.env.RUNNER_TEMP || '/tmp';
+
+      // An entry larger than the whole quota could never be kept
+      const sizeLimitBytes =
+        quotaBytes > 0
+          ? Math.min(maxCacheSizeBytes, quotaBytes)
+          : maxCacheSizeBytes;
+
+      // Make room in the repository's quota for the entry before uploading.
+      // Its size is only known once compressed: the entry this job restored
+      // is usually close, and the uncompressed size is an upper bound.
+      if (quotaBytes > 0) {
+        const restoredMetadata = restoredEntry
+          ? await readMetadata(redis, restoredEntry)
+          : null;
+        const expectedBytes = Math.min(
+          restoredMetadata?.archiveSize ||
+            (await measurePaths(validPaths)).size,
+          sizeLimitBytes
+        );
+        core.debug(`  Expected archive size: ${formatBytes(expectedBytes)}`);
+        logEviction(
+          await enforceQuota(redis, scope, quotaBytes - expectedBytes),
+          quotaBytes
+        );
+      }
+
+      // Archive bytes are uploaded as chunk keys while they are produced
+      const createWriter = (): EntryWriteStream =>
+        new EntryWriteStream(redis, fullKey, ttl, {
+          maxSize: sizeLimitBytes,
+          // Chunks already stored for this repository are not uploaded again
+          dedupScope: chunkDedup ? scope : undefined,
+        });
+      let writer = createWriter();
+
+      const startTime = Date.now();
+
+      let fingerprint = '';
+      if (reuseIdenticalEntries) {
+        fingerprint = await getPathsFingerprint(validPaths, true);
+        core.debug(
+          `  Content fingerprint: ${fingerprint} (${Date.now() - startTime}ms)`
+        );
+      }
+
+      // Files identical to an existing entry's are copied from its archive
+      // instead of being compressed and uploaded again
+      let copiedFrom: CacheMetadata | null = null;
+      const source =
+        unchangedEntry ||
+        (fingerprint
+          ? await findEntryByFingerprint(redis, scope, fingerprint)
+          : null);
+      // The format of the copied archive comes from its metadata
+      const sourceMetadata = source ? await readMetadata(redis, source) : null;
+      if (source && sourceMetadata) {
+        core.info(
+          unchangedEntry
+            ? `♻️  Copying the archive of ${sourceMetadata.key}`
+            : `♻️  Cache contents are identical to ${sourceMetadata.key} - copying its archive`
+        );
+        try {
+          if (await copyEntry(redis, source, writer)) {
+            copiedFrom = sourceMetadata;
+          } else {
+            core.info('   Entry is no longer complete - compressing instead');
+          }
+        } catch (copyError) {
+          const errorMsg =
+            copyError instanceof Error ? copyError.message : String(copyError);
+          core.warning(`Failed to copy cache entry: ${errorMsg}`);
+          core.warning('  - Compressing the files instead');
+          await writer.abort();
+          writer = createWriter();
+        }
+      } else if (source) {
+        core.debug(`  Identical entry ${source} has no metadata - not copied`);
+      }
+
+      if (!copiedFrom) {
+        core.info(
+          `🗜️  Compressing and uploading archive (level ${compression})...`
+        );
+        core.debug(`  Files to archive: ${validPaths.length}`);
+        core.debug(`  Using format: ${compressionHandler.format}`);
+      }
+      core.debug(`  Full Redis key: ${fullKey}`);
+      core.debug(`  TTL: ${ttl} seconds`);
+
+      try {
+        if (copiedFrom) {
+          core.debug('  Archive already uploaded from the identical entry');
+        } else if (compressionHandler.compressToStream) {
+          core.debug('  Streaming archive directly into Redis');
+          await compressionHandler.compressToStream(
+            validPaths,
+            writer,
+            compression,
+            {reproducible: reproducibleArchives, rsyncable: chunkDedup}
+          );
+        } else {
+          // Handler can only write files - stage the archive in a temp file
+          const tempFile = path.join(tempDir, `cache-${Date.now()}.archive`);
+          core.debug(`  Temp file: ${tempFile}`);
+
+          try {
+            await compressionHandler.compress(
+              validPaths,
+              tempFile,
+              compression,
+              {reproducible: reproducibleArchives, rsyncable: chunkDedup}
+            );
+            await pipeline(fs.createReadStream(tempFile), writer);
+          } finally {
+            if (fs.existsSync(tempFile)) {
+              fs.unlinkSync(tempFile);
+              core.debug(`Cleaned up temp file: ${tempFile}`);
+            }
+          }
+        }
+      } catch (saveError) {
+        await writer.abort();
+        const errorMsg =
+          saveError instanceof Error ? saveError.message : String(saveError);
+
+        if (errorMsg.includes('exceeds configured maximum')) {
+          core.warning(
+            `⚠️  Cache size (more than ${formatBytes(writer.bytesWritten)}) exceeds configured maximum (${formatBytes(sizeLimitBytes)})`
+          );
+          core.error('');
+          core.error('❌ Cache is too large to store in Redis');
+          core.error('');
+          core.error('Solutions:');
+          core.error('  1. Reduce cached paths - only cache essential dependencies');
+          core.error('  2. Use maximum compression: compression: 9');
+          core.error('  3. Split into multiple cache keys for different components');
+          core.error('  4. Increase max-cache-size input');
+          if (sizeLimitBytes < maxCacheSizeBytes) {
+            core.error(
+              '  5. Increase repository-quota-mb - a single cache cannot exceed it'
+            );
+          }
+          core.error('');
+          core.error('Technical Details:');
+          core.error(`  - Bytes produced before abort: ${formatBytes(writer.bytesWritten)}`);
+          core.error(`  - Configured limit: ${formatBytes(sizeLimitBytes)}`);
+          core.error('');
+          core.info('ℹ️  Skipping cache save - workflow will continue');
+          return; // Graceful exit, partial upload has been removed
+        }
+
+        if (writer.errored) {
+          // Upload side failed - reported by the generic handler below
+          throw saveError;
+        }
+
+        core.error(`Failed to create archive: ${errorMsg}`);
+        core.error('');
+        core.error('Troubleshooting:');
+
+        if (
+          errorMsg.includes('command not found') ||
+          errorMsg.includes('ENOENT')
+        ) {
+          core.error('  - Compression tool is not available on this system');
+          core.error('  - Install tar: apt-get install tar (Ubuntu)');
+          core.error('  - Install zip: apt-get install zip (Ubuntu)');
+          core.error('  - Install gzip: apt-get install gzip (Ubuntu)');
+        } else if (errorMsg.includes('Permission denied')) {
+          core.error('  - Check file permissions for source paths');
+          core.error('  - Verify write permissions for temp directory');
+          core.error(`  - Temp directory: ${tempDir}`);
+        } else if (errorMsg.includes('No space left')) {
+          core.error('  - Disk space exhausted');
+          core.error('  - Check available disk space: df -h');
+          core.error('  - Consider reducing cache size or cleaning temp directory');
+        } else {
+          core.error('  - Verify all files in cache paths are accessible');
+          core.error('  - Check for symbolic links or special files');
+          core.error('  - Ensure sufficient disk space');
+        }
+
+        throw saveError;
+      }
+      const uploadTime = Date.now() - startTime;
+
+      const manifest = writer.manifest;
+      if (!manifest) {
+        throw new Error(
+          'Cache verification failed - upload finished without a manifest'
+        );
+      }
+
+      const sizeBytes = manifest.size;
+      core.info(`   Archive size: ${formatBytes(sizeBytes)}`);
+      core.debug(`  Compress and upload time: ${uploadTime}ms`);
+      core.debug(`  Chunks written: ${manifest.chunkCount}`);
+      if (manifest.layout === 'content') {
+        core.info(
+          `   Deduplicated: ${writer.reusedChunks}/${manifest.chunkCount} chunk(s) already stored, uploaded ${formatBytes(writer.bytesUploaded)}`
+        );
+      }
+
+      // Warn if approaching the limit (> 80% of max)
+      const warningThreshold = sizeLimitBytes * 0.8;
+      if (sizeBytes > warningThreshold) {
+        core.warning(
+          `⚠️  Cache size (${formatBytes(sizeBytes)}) is approaching limit (${formatBytes(sizeLimitBytes)}). Consider reducing cache size.`
+        );
+      }
+
+      core.info(`✅ Cache saved successfully!`);
+      core.info(`📊 Cache Statistics:`);
+      core.info(`   Key: ${key}`);
+      core.info(`   Size: ${formatBytes(sizeBytes)}`);
+      core.info(`   Files: ${validPaths.length}`);
+      core.info(
+        `   Format: ${copiedFrom?.format ?? compressionHandler.format}`
+      );
+      core.info(`   Chunks: ${manifest.chunkCount}`);
+      if (copiedFrom) {
+        core.info(`   Copied from: ${copiedFrom.key}`);
+      } else {
+        core.info(`   Compression: Level ${compression}`);
+      }
+      core.info(
+        pinned
+          ? '   TTL: pinned (never expires)'
+          : `   TTL: ${ttl} seconds (${Math.round(ttl / 86400)} days)`
+      );
+      core.info(`   Compress + upload time: ${uploadTime}ms`);
+      core.info(
+        `   Throughput: ${formatBytes(Math.round((sizeBytes / uploadTime) * 1000))}/s`
+      );
+
+      // Verify cache was saved
+      core.info(`🔍 Verifying cache upload...`);
+      core.debug(`  Checking manifest and chunks of key: ${fullKey}`);
+
+      const verifyStart = Date.now();
+      const exists = await verifyEntry(redis, fullKey);
+      const verifyTime = Date.now() - verifyStart;
+      core.debug(`  Verification time: ${verifyTime}ms`);
+
+      if (!exists) {
+        throw new Error(
+          'Cache verification failed - key does not exist after save'
+        );
+      }
+
+      core.debug(`  ✅ Cache verification passed`);
+
+      // Record where the entry came from - failures here don't invalidate the cache
+      try {
+        const contents = await measurePaths(validPaths);
+        const metadata = {
+          key,
+          format: copiedFrom?.format ?? compressionHandler.format,
+          compressionLevel: copiedFrom?.compressionLevel ?? compression,
+          archiveSize: sizeBytes,
+          uncompressedSize: contents.size,
+          fileCount: contents.fileCount,
+          paths: pathPatterns,
+          createdAt: new Date().toISOString(),
+          commitSha: process.env.GITHUB_SHA || '',
+          ref: process.env.GITHUB_REF || '',
+          workflow: process.env.GITHUB_WORKFLOW || '',
+          runId: process.env.GITHUB_RUN_ID || '',
+          runnerOs: process.env.RUNNER_OS || '',
+          fingerprint,
+        };
+        await writeMetadata(redis, fullKey, metadata, ttl);
+        core.debug(
+          `  Metadata written (uncompressed size: ${formatBytes(metadata.uncompressedSize)})`
+        );
+      } catch (metadataError) {
+        const errorMsg =
+          metadataError instanceof Error
+            ? metadataError.message
+            : String(metadataError);
+        core.warning(`Failed to write cache metadata: ${errorMsg}`);
+      }
+
+      if (pinned) {
+        try {
+          await persistEntry(redis, fullKey);
+          core.info(`📌 Cache pinned by TTL policy rule "${ttlRule?.source}"`);
+        } catch (persistError) {
+          const errorMsg =
+            persistError instanceof Error
+              ? persistError.message
+              : String(persistError);
+          core.warning(`Failed to pin cache entry: ${errorMsg}`);
+          core.warning(`  - The entry expires after ${ttl} seconds instead`);
+        }
+      }
+
+      // Make the entry the newest candidate for restore-key lookups
+      try {
+        const indexKey = getIndexKey(scope);
+        await addToIndex(
+          redis,
+          indexKey,
+          fullKey,
+          Date.now(),
+          pinned ? null : ttl
+        );
+        core.debug(`  Entry added to index: ${indexKey}`);
+      } catch (indexError) {
+        const errorMsg =
+          indexError instanceof Error ? indexError.message : String(indexError);
+        core.warning(`Failed to update cache index: ${errorMsg}`);
+        core.warning('  - The entry can still be restored by its exact key');
+      }
+
+      // Let later saves of the same files copy this entry
+      if (fingerprint) {
+        try {
+          await recordFingerprint(
+            redis,
+            scope,
+            fingerprint,
+            fullKey,
+            pinned ? null : ttl
+          );
+        } catch (fingerprintError) {
+          const errorMsg =
+            fingerprintError instanceof Error
+              ? fingerprintError.message
+              : String(fingerprintError);
+          core.warning(`Failed to record cache fingerprint: ${errorMsg}`);
+        }
+      }
+
+      // Account for the entry and evict older ones if it pushed usage over quota
+      try {
+        await recordUsage(
+          redis,
+          scope,
+          fullKey,
+          sizeBytes,
+          pinned ? null : ttl
+        );
+        if (quotaBytes > 0) {
+          logEviction(
+            await enforceQuota(redis, scope, quotaBytes, fullKey),
+            quotaBytes
+          );
+        }
+      } catch (quotaError) {
+        const errorMsg =
+          quotaError instanceof Error ? quotaError.message : String(quotaError);
+        core.warning(`Failed to update repository usage: ${errorMsg}`);
+        core.warning(
+          '  - The cache was saved, but may not count towards the quota'
+        );
+      }
+    } finally {
+      if (lock) {
+        await lock.release();
+      }
+      if (marker) {
+        await releaseProducer(redis, marker.fullKey, marker.producerToken);
+      }
+      await redis.quit();
+      core.debug('Redis connection closed');
+    }
+  } catch (error) {
+    // Don't fail the job if cache save fails
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    core.warning(`⚠️  Failed to save cache: ${errorMsg}`);
+
+    if (error instanceof Error && error.stack) {
+      core.debug('Stack trace:');
+      core.debug(error.stack);
+    }
+
+    // Provide troubleshooting guidance based on error type
+    if (errorMsg.includes('ECONNREFUSED')) {
+      core.error('');
+      core.error('Connection refused - Redis server is not reachable:');
+      core.error('  - Verify redis-host and redis-port are correct');
+      core.error('  - Check if Redis server is running');
+      core.error('  - Verify network connectivity');
+      core.error('  - Check firewall rules if using remote Redis');
+    } else if (errorMsg.includes('ENOTFOUND')) {
+      core.error('');
+      core.error('DNS resolution failed - cannot find Redis host:');
+      core.error('  - Verify redis-host is correct');
+      core.error('  - Check DNS configuration');
+      core.error('  - Try using IP address instead of hostname');
+    } else if (
+      errorMsg.includes('authentication') ||
+      errorMsg.includes('NOAUTH')
+    ) {
+      core.error('');
+      core.error('Authentication failed:');
+      core.error('  - Verify redis-password is correct');
+      core.error('  - Check if Redis requires authentication');
+      core.error('  - Verify password is set in repository secrets');
+    } else if (errorMsg.includes('ETIMEDOUT')) {
+      core.error('');
+      core.error('Connection timeout:');
+      core.error('  - Redis server may be overloaded');
+      core.error('  - Network latency may be too high');
+      core.error('  - Check Redis server health');
+    } else if (errorMsg.includes('OOM') || errorMsg.includes('out of memory')) {
+      core.error('');
+      core.error('Redis out of memory:');
+      core.error('  - Redis has reached maxmemory limit');
+      core.error('  - Cache data exceeds available Redis memory');
+      core.error('  - Consider increasing Redis maxmemory');
+      core.error('  - Check Redis eviction policy (should be allkeys-lru)');
+      core.error(
+        '  - Set repository-quota-mb to bound how much each repository stores'
+      );
+    } else if (errorMsg.includes('Cache verification failed')) {
+      core.error('');
+      core.error('Cache upload verification failed:');
+      core.error('  - Data was uploaded but Redis key does not exist');
+      core.error('  - Redis may have evicted the key immediately');
+      core.error('  - Check Redis memory pressure and eviction policy');
+      core.error('  - Verify TTL settings are reasonable');
+    }
+
+    core.info('');
+    core.info('ℹ️  Job will continue despite cache save failure');
+    core.info(
+      'For more help, see: https://github.com/aiaugmentedsoftwaredevelopment/github-actions-redis-cache#troubleshooting'
+    );
+  } finally {
+    // The save ended before connecting to Redis
+    if (producerMarker) {
+      await releaseProducerMarker(producerMarker);
+    }
+  }
+}
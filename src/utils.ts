@@ -4,7 +4,9 @@
 
 import * as core from '@actions/core';
 import * as glob from '@actions/glob';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
+import * as path from 'path';
 
 /**
  * Resolve glob patterns to actual file paths
@@ -46,12 +48,35 @@ export async function resolveGlobPaths(patterns: string[]): Promise<string[]> {
     }
   }
 
-  const uniquePaths = [...new Set(resolvedPaths)];
+  // Directories are archived whole, so anything listed under one is dropped
+  const uniquePaths = removeNestedPaths([...new Set(resolvedPaths)]);
   core.debug(`  Total unique paths resolved: ${uniquePaths.length}`);
 
   return uniquePaths;
 }
 
+/**
+ * Drop paths that sit under another path in the list
+ * Globs match a directory and every file under it, while directories are
+ * archived and measured recursively, so the descendants would count twice.
+ */
+export function removeNestedPaths(paths: string[]): string[] {
+  const listed = new Set(paths.map(p => path.resolve(p)));
+
+  return paths.filter(p => {
+    let child = path.resolve(p);
+    let parent = path.dirname(child);
+    while (parent !== child) {
+      if (listed.has(parent)) {
+        return false;
+      }
+      child = parent;
+      parent = path.dirname(parent);
+    }
+    return true;
+  });
+}
+
 /**
  * Validate cache paths exist
  */
@@ -72,6 +97,96 @@ export async function validatePaths(paths: string[]): Promise<string[]> {
   return validPaths;
 }
 
+/**
+ * Get the total size and number of the regular files under the given paths
+ * Directories are walked recursively; symbolic links are not followed
+ */
+export async function measurePaths(
+  paths: string[]
+): Promise<{size: number; fileCount: number}> {
+  let size = 0;
+  let fileCount = 0;
+  const pending = [...paths];
+
+  while (pending.length > 0) {
+    const p = pending.pop() as string;
+    try {
+      const stat = await fs.promises.lstat(p);
+      if (stat.isDirectory()) {
+        const entries = await fs.promises.readdir(p);
+        pending.push(...entries.map(entry => path.join(p, entry)));
+      } else if (stat.isFile()) {
+        size += stat.size;
+        fileCount++;
+      }
+    } catch (error) {
+      core.debug(`Unable to stat ${p} while measuring cache size`);
+    }
+  }
+
+  return {size, fileCount};
+}
+
+/**
+ * Get the SHA-256 of a file's contents, hex encoded
+ */
+async function hashFile(file: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(file)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Fingerprint the files under the given paths
+ * By default covers the path, type, size, mode and mtime of everything under
+ * them, so a file that is added, removed or written to changes the
+ * fingerprint without any contents being read. With contents, file contents
+ * are hashed instead of sizes and mtimes, so identical files checked out or
+ * built by different runs give the same fingerprint. Paths are taken relative
+ * to the working directory. Directories are walked recursively; symbolic
+ * links are not followed.
+ */
+export async function getPathsFingerprint(
+  paths: string[],
+  contents = false
+): Promise<string> {
+  const records: string[] = [];
+  const pending = [...paths];
+
+  while (pending.length > 0) {
+    const p = pending.pop() as string;
+    try {
+      const stat = await fs.promises.lstat(p);
+      let type = 'file';
+      if (stat.isDirectory()) {
+        type = 'dir';
+        const entries = await fs.promises.readdir(p);
+        pending.push(...entries.map(entry => path.join(p, entry)));
+      } else if (stat.isSymbolicLink()) {
+        type = `link:${await fs.promises.readlink(p)}`;
+      } else if (contents && stat.isFile()) {
+        type = `file:${await hashFile(p)}`;
+      }
+
+      const record = [path.relative(process.cwd(), p), type, stat.mode];
+      if (!contents) {
+        record.push(stat.size, stat.mtimeMs);
+      }
+      records.push(record.join('\0'));
+    } catch (error) {
+      core.debug(`Unable to read ${p} while fingerprinting cache paths`);
+    }
+  }
+
+  const hash = crypto.createHash('sha256');
+  for (const record of records.sort()) {
+    hash.update(`${record}\n`);
+  }
+  return hash.digest('hex');
+}
+
 /**
  * Format bytes to human-readable string
  */